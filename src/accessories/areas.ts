@@ -0,0 +1,100 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import type { DigitalStromPlatform } from '../platform.js';
+import type { AccessoryHandler, ApartmentStatus, ZoneStatus } from '../types/digitalStromTypes.js';
+
+
+/**
+ * Represents a Homebridge switch for an area (1-4) of a digitalSTROM zone.
+ * Calls the area on/off scenario for lights or shades.
+ */
+export class AreaPlatformAccessory implements AccessoryHandler {
+  /** The Homebridge Switch service */
+  private service: Service;
+  /** Cached current state */
+  private currentState = false;
+
+  /**
+   * Constructs a new AreaPlatformAccessory.
+   * @param platform The DigitalStromPlatform instance.
+   * @param accessory The Homebridge PlatformAccessory instance.
+   */
+  constructor(
+    private readonly platform: DigitalStromPlatform,
+    private readonly accessory: PlatformAccessory,
+  ) {
+    const { zone, application, area } = this.accessory.context;
+
+    // Set accessory information
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'DigitalSTROM')
+      .setCharacteristic(this.platform.Characteristic.Model, application === 'shades' ? 'AreaShades' : 'AreaLights')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, `${zone.id}-${application}-area${area}`);
+
+    this.service = this.accessory.getService(this.platform.Service.Switch)
+      || this.accessory.addService(this.platform.Service.Switch);
+
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName);
+
+    this.service.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(this.setOn.bind(this))
+      .onGet(this.getOn.bind(this));
+
+    this.platform.log.debug('AreaPlatformAccessory created for:', this.accessory.displayName);
+  }
+
+  /**
+   * Sets the On/Off state of the area.
+   * Called by Homebridge when the user toggles the area switch.
+   * @param value The new On/Off value (true for on, false for off).
+   */
+  async setOn(value: CharacteristicValue) {
+    const { zone, application, area } = this.accessory.context;
+
+    try {
+      await this.platform.dsAPI.invokeScenario({
+        context: 'applicationArea',
+        actionId: value ? 'on' : 'off',
+        application,
+        zone: zone.id,
+        area,
+      });
+      this.currentState = value as boolean;
+      this.platform.log.info(`${this.accessory.displayName} → ${value ? 'On' : 'Off'}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set ${this.accessory.displayName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Gets the current On/Off state of the area.
+   * Returns the cached value — updates are handled by updateState on apartmentStatusChanged events.
+   */
+  async getOn(): Promise<CharacteristicValue> {
+    return this.currentState;
+  }
+
+  /**
+   * Updates the accessory state from the latest apartment status.
+   * Called by the platform when apartment status changes.
+   * @param apartmentStatus The latest apartment status object.
+   */
+  public async updateState(apartmentStatus: ApartmentStatus): Promise<void> {
+    const { zone, application, area } = this.accessory.context;
+    const zoneStatus = apartmentStatus?.included?.zones?.find((z: ZoneStatus) => z.id === zone.id);
+    const applicationStatus = zoneStatus?.attributes?.applications?.find((a) => a.id === application);
+    const areaStatus = applicationStatus?.[`area${area}` as 'area1' | 'area2' | 'area3' | 'area4'];
+
+    if (!areaStatus) {
+      this.platform.log.debug(`No area status available for ${this.accessory.displayName}`);
+      return;
+    }
+
+    const newState = areaStatus !== 'off';
+    if (newState !== this.currentState) {
+      this.currentState = newState;
+      this.service.updateCharacteristic(this.platform.Characteristic.On, this.currentState);
+      this.platform.log.debug(`${this.accessory.displayName} → ${this.currentState}`);
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import type { PlatformAccessory, Service } from 'homebridge';
+import type { DigitalStromPlatform } from '../platform.js';
+import type { AccessoryHandler, Button, ButtonClickType, ButtonInputEvent, FunctionBlock } from '../types/digitalStromTypes.js';
+
+
+/**
+ * Represents a Homebridge accessory for a digitalSTROM pushbutton device.
+ * Exposes each button input as a StatelessProgrammableSwitch; presses are received via WebSocket notifications.
+ */
+export class ButtonPlatformAccessory implements AccessoryHandler {
+  /** StatelessProgrammableSwitch services keyed by service subtype */
+  private services: Map<string, Service> = new Map();
+
+  /** Id of the device the function block belongs to */
+  private readonly dsDeviceId: string;
+  /** Service subtype, only set if the device has several function blocks */
+  private readonly subtype?: string;
+  /** Service name */
+  private readonly name: string;
+
+  /**
+   * Constructs a new ButtonPlatformAccessory.
+   * @param platform The DigitalStromPlatform instance.
+   * @param accessory The Homebridge PlatformAccessory instance.
+   * @param device The function block handled by this instance.
+   */
+  constructor(
+    private readonly platform: DigitalStromPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly device: FunctionBlock,
+  ) {
+    this.dsDeviceId = this.accessory.context.dsDevice.id;
+    this.subtype = this.platform.getServiceSubtype(this.accessory, this.device);
+    this.name = this.platform.getServiceName(this.accessory, this.device);
+
+    const buttons = (this.device.attributes?.buttonInputs ?? []).filter((b: Button) => b.attributes?.mode !== 'disabled');
+    // The label index must be unique across the buttons of all function blocks of the accessory
+    const labelIndexOffset = this.platform.getButtonLabelIndexOffset(this.accessory, this.device);
+
+    buttons.forEach((button: Button, index: number) => {
+      const name = buttons.length > 1
+        ? `${this.name} ${button.attributes?.name || index + 1}`
+        : this.name;
+
+      // Use the button input id as subtype, as a device may have several button inputs
+      const subtype = this.getButtonSubtype(button.id);
+      const service = this.accessory.getServiceById(this.platform.Service.StatelessProgrammableSwitch, subtype)
+        || this.accessory.addService(this.platform.Service.StatelessProgrammableSwitch, name, subtype);
+
+      service.setCharacteristic(this.platform.Characteristic.Name, name);
+      service.setCharacteristic(this.platform.Characteristic.ServiceLabelIndex, labelIndexOffset + index + 1);
+      service.getCharacteristic(this.platform.Characteristic.ProgrammableSwitchEvent)
+        .setProps({
+          validValues: [
+            this.platform.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS,
+            this.platform.Characteristic.ProgrammableSwitchEvent.DOUBLE_PRESS,
+            this.platform.Characteristic.ProgrammableSwitchEvent.LONG_PRESS,
+          ],
+        });
+
+      this.services.set(subtype, service);
+    });
+
+    // Remove switch services of button inputs that no longer exist on the function block
+    const ownsService = (subtype: string) => !this.subtype || subtype.startsWith(`${this.subtype}-`);
+    for (const service of [...this.accessory.services]) {
+      if (service.UUID === this.platform.Service.StatelessProgrammableSwitch.UUID && ownsService(service.subtype ?? '')
+        && !this.services.has(service.subtype ?? '')) {
+        this.platform.log.debug(`Removing stale button service ${service.displayName} from ${this.accessory.displayName}`);
+        this.accessory.removeService(service);
+      }
+    }
+
+    // HomeKit requires a ServiceLabel service to tell multiple buttons of one accessory apart
+    const labelService = this.accessory.getService(this.platform.Service.ServiceLabel);
+    const switchCount = this.accessory.services.filter((s) => s.UUID === this.platform.Service.StatelessProgrammableSwitch.UUID).length;
+    if (switchCount > 1) {
+      (labelService || this.accessory.addService(this.platform.Service.ServiceLabel))
+        .setCharacteristic(this.platform.Characteristic.ServiceLabelNamespace,
+          this.platform.Characteristic.ServiceLabelNamespace.ARABIC_NUMERALS);
+    } else if (labelService) {
+      this.accessory.removeService(labelService);
+    }
+
+    this.platform.log.debug('ButtonPlatformAccessory created for:', this.accessory.displayName);
+  }
+
+  /**
+   * Buttons are stateless, press events are handled by handleButtonEvent.
+   */
+  public async updateState(): Promise<void> {
+    return;
+  }
+
+  /**
+   * Triggers the ProgrammableSwitchEvent for a button input event of this device.
+   * Called by the platform for every buttonInputEvent WebSocket notification.
+   * @param event The button input event.
+   */
+  public handleButtonEvent(event: ButtonInputEvent): void {
+    if (!event.attributes || event.attributes.dsDevice !== this.dsDeviceId) {
+      return;
+    }
+    if (event.attributes.functionBlock && event.attributes.functionBlock !== this.device.id) {
+      return;
+    }
+
+    // Devices with a single button input do not necessarily report the input id
+    const service = event.attributes.buttonInput
+      ? this.services.get(this.getButtonSubtype(event.attributes.buttonInput))
+      : this.services.values().next().value;
+    const pressEvent = this.getPressEvent(event.attributes.clickType);
+
+    if (!service || pressEvent === undefined) {
+      this.platform.log.debug(`Ignoring button event ${event.attributes.clickType} of ${this.accessory.displayName}`);
+      return;
+    }
+
+    this.platform.log.debug(`${service.displayName} → ${event.attributes.clickType}`);
+    service.updateCharacteristic(this.platform.Characteristic.ProgrammableSwitchEvent, pressEvent);
+  }
+
+  /**
+   * Returns the service subtype of a button input, prefixed with the function block subtype if the device has several function blocks.
+   * @param buttonId The button input id.
+   */
+  private getButtonSubtype(buttonId: string): string {
+    return this.subtype ? `${this.subtype}-${buttonId}` : buttonId;
+  }
+
+  /**
+   * Maps a digitalSTROM click type to a HomeKit ProgrammableSwitchEvent.
+   * Only the start of a hold is reported as long press, repeats and release are ignored.
+   * @param clickType The digitalSTROM click type.
+   * @returns The ProgrammableSwitchEvent value, or undefined if the click type is not mapped.
+   */
+  private getPressEvent(clickType?: ButtonClickType): number | undefined {
+    switch (clickType) {
+    case 'tip_1x':
+    case 'click_1x':
+      return this.platform.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS;
+    case 'tip_2x':
+    case 'click_2x':
+      return this.platform.Characteristic.ProgrammableSwitchEvent.DOUBLE_PRESS;
+    case 'hold_start':
+      return this.platform.Characteristic.ProgrammableSwitchEvent.LONG_PRESS;
+    default:
+      return undefined;
+    }
+  }
+}
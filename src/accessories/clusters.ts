@@ -0,0 +1,174 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import type { DigitalStromPlatform } from '../platform.js';
+import type { AccessoryHandler, ApartmentStatus, Cluster, ClusterStatus, FunctionBlock, Output, OutputStatus } from '../types/digitalStromTypes.js';
+import { getShadeType, SHADE_TYPE_CONFIG, ShadeTypeConfig } from '../types/deviceTypes.js';
+
+
+/**
+ * Represents a Homebridge accessory for a digitalSTROM cluster of shades or awnings.
+ * Opens, closes and stops all cluster members with a single cluster scenario.
+ */
+export class ClusterPlatformAccessory implements AccessoryHandler {
+  /** The Homebridge WindowCovering service */
+  private service: Service;
+  /** Cached position (0-100), the average of all cluster members */
+  private currentPosition = 0;
+  /** Cached target position (0 or 100) */
+  private targetPosition = 0;
+  /** Whether operations of the cluster are locked (e.g. by wind protection) */
+  private locked = false;
+  /** Covering type of awning clusters, shade clusters use the covering type of each member */
+  private awningType?: ShadeTypeConfig;
+  /** Whether HomeKit open and closed are swapped by the invertAwnings option */
+  private invertedByOption = false;
+
+  /**
+   * Constructs a new ClusterPlatformAccessory.
+   * @param platform The DigitalStromPlatform instance.
+   * @param accessory The Homebridge PlatformAccessory instance.
+   */
+  constructor(
+    private readonly platform: DigitalStromPlatform,
+    private readonly accessory: PlatformAccessory,
+  ) {
+    // Set accessory information
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'DigitalSTROM')
+      .setCharacteristic(this.platform.Characteristic.Model, 'Cluster')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.context.cluster.id);
+
+    this.service = this.accessory.getService(this.platform.Service.WindowCovering)
+      || this.accessory.addService(this.platform.Service.WindowCovering);
+
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName);
+
+    if ((this.accessory.context.cluster as Cluster).attributes?.application === 'awnings') {
+      this.awningType = SHADE_TYPE_CONFIG.awning;
+      this.invertedByOption = this.platform.config.options?.invertAwnings === true;
+    }
+
+    this.service.getCharacteristic(this.platform.Characteristic.CurrentPosition)
+      .onGet(() => this.currentPosition);
+    this.service.getCharacteristic(this.platform.Characteristic.PositionState)
+      .onGet(() => this.platform.Characteristic.PositionState.STOPPED);
+    this.service.getCharacteristic(this.platform.Characteristic.TargetPosition)
+      .setProps({ minStep: 100 })
+      .onSet(this.setTargetPosition.bind(this))
+      .onGet(() => this.targetPosition);
+    this.service.getCharacteristic(this.platform.Characteristic.HoldPosition)
+      .onSet(this.holdPosition.bind(this));
+
+    // Locked operations are reported as obstruction
+    this.service.getCharacteristic(this.platform.Characteristic.ObstructionDetected)
+      .onGet(() => this.locked);
+
+    this.platform.log.debug('ClusterPlatformAccessory created for:', this.accessory.displayName);
+  }
+
+  /**
+   * Invokes a cluster scenario, unless operations of the cluster are locked.
+   * @param actionId The scenario action, e.g. 'on', 'off' or 'stop'.
+   */
+  private async invokeClusterScenario(actionId: string): Promise<void> {
+    const cluster = this.accessory.context.cluster as Cluster;
+
+    if (this.locked) {
+      this.platform.log.warn(`${this.accessory.displayName} is locked, ignoring ${actionId}`);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+    }
+
+    try {
+      await this.platform.dsAPI.invokeScenario({
+        context: 'applicationCluster',
+        actionId,
+        application: cluster.attributes?.application ?? 'shades',
+        cluster: cluster.id,
+      });
+    } catch (error) {
+      this.platform.log.error(`Failed to invoke ${actionId} for ${this.accessory.displayName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Opens or closes all shades of the cluster.
+   * Cluster scenarios only support fully open or closed, intermediate positions are rounded.
+   * @param value The new target position (0-100).
+   */
+  async setTargetPosition(value: CharacteristicValue) {
+    const open = Number(value) >= 50;
+    const shadeType = this.awningType ?? SHADE_TYPE_CONFIG.outside;
+    // Coverings inverted by the plugin config reach the HomeKit open position with the close action and vice versa
+    const openActionId = this.invertedByOption ? shadeType.closeActionId : shadeType.openActionId;
+    const closeActionId = this.invertedByOption ? shadeType.openActionId : shadeType.closeActionId;
+    await this.invokeClusterScenario(open ? openActionId : closeActionId);
+    this.targetPosition = open ? 100 : 0;
+    this.platform.log.info(`${this.accessory.displayName} → ${open ? 'Open' : 'Close'}`);
+  }
+
+  /**
+   * Stops all shades of the cluster.
+   * @param value `true` when HomeKit requests a stop, follow-up `false` writes are ignored.
+   */
+  async holdPosition(value: CharacteristicValue) {
+    if (!value) {
+      return;
+    }
+    await this.invokeClusterScenario('stop');
+    this.platform.log.info(`${this.accessory.displayName} stopped`);
+  }
+
+  /**
+   * Updates the accessory state from the latest apartment status.
+   * Called by the platform when apartment status changes.
+   * @param apartmentStatus The latest apartment status object.
+   */
+  public async updateState(apartmentStatus: ApartmentStatus): Promise<void> {
+    const cluster = this.accessory.context.cluster as Cluster;
+    const clusterStatus = apartmentStatus?.included?.clusters?.find((c: ClusterStatus) => c.id === cluster.id);
+
+    this.locked = clusterStatus?.attributes?.operationsLocked === true;
+    this.service.updateCharacteristic(this.platform.Characteristic.ObstructionDetected, this.locked);
+
+    // The cluster position is the average position of its members
+    const positions = (cluster.attributes?.dsDevices ?? [])
+      .map((deviceId) => this.getMemberPosition(deviceId, apartmentStatus))
+      .filter((value): value is number => value !== undefined);
+
+    if (positions.length > 0) {
+      this.currentPosition = Math.round(positions.reduce((sum, value) => sum + value, 0) / positions.length);
+      this.targetPosition = this.currentPosition >= 50 ? 100 : 0;
+      this.service.updateCharacteristic(this.platform.Characteristic.CurrentPosition, this.currentPosition);
+      this.service.updateCharacteristic(this.platform.Characteristic.TargetPosition, this.targetPosition);
+    }
+  }
+
+  /**
+   * Gets the HomeKit position (0-100) of a cluster member from its shade function block.
+   * @param deviceId The id of the member device.
+   * @param apartmentStatus The latest apartment status object.
+   * @returns The position, or undefined if not available.
+   */
+  private getMemberPosition(deviceId: string, apartmentStatus: ApartmentStatus): number | undefined {
+    const functionBlock = this.platform.getDeviceFunctionBlocks(deviceId).find((fb: FunctionBlock) => getShadeType(fb));
+    const shadeTypeKey = functionBlock ? getShadeType(functionBlock)! : 'outside';
+    const shadeType = this.awningType ?? SHADE_TYPE_CONFIG[shadeTypeKey];
+    const outputId = functionBlock?.attributes?.outputs?.find(
+      (o: Output) => o.id === shadeType.output || o.attributes?.type === shadeType.output,
+    )?.id ?? shadeType.output;
+
+    // Without the function block of the member, the shade output may belong to any function block of the device
+    const outputs = functionBlock
+      ? this.platform.getFunctionBlockStatus(apartmentStatus, deviceId, functionBlock.id)?.outputs
+      : apartmentStatus?.included?.dsDevices?.find((d) => d.id === deviceId)?.attributes?.functionBlocks?.flatMap((fb) => fb.outputs ?? []);
+    const value = outputs?.find((o: OutputStatus) => o.id === outputId)?.value;
+    if (typeof value !== 'number' || isNaN(value)) {
+      return undefined;
+    }
+
+    // Same inversion as the window covering of the member itself
+    const isAwning = !!this.awningType || shadeTypeKey === 'awning';
+    const invertedByOption = isAwning && this.platform.config.options?.invertAwnings === true;
+    return shadeType.invertedOutput !== invertedByOption ? 100 - value : value;
+  }
+}
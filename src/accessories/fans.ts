@@ -0,0 +1,222 @@
+import type { Characteristic, CharacteristicValue, PlatformAccessory, Service, WithUUID } from 'homebridge';
+import type { DigitalStromPlatform } from '../platform.js';
+import type { AccessoryHandler, ApartmentStatus, FunctionBlock, Output, OutputStatus } from '../types/digitalStromTypes.js';
+
+
+/**
+ * Represents a Homebridge accessory for a digitalSTROM ventilation device.
+ * Handles active state, speed, air flow direction, swing mode and automatic mode.
+ */
+export class FanPlatformAccessory implements AccessoryHandler {
+  /** The Homebridge Fanv2 service */
+  private service: Service;
+  /** Outputs of the device, keyed by output type */
+  private outputs: Map<string, Output> = new Map();
+  /** Cached output values, keyed by output type */
+  private values: Map<string, number> = new Map();
+  /** Registered optional characteristics and their output conversion */
+  private mappings: Array<{
+    characteristic: WithUUID<typeof Characteristic> & (new () => Characteristic);
+    outputType: string;
+    toCharacteristic: (value: number) => number;
+  }> = [];
+
+  /** airFlowDirection output values */
+  private readonly AIR_FLOW_SUPPLY = 1;
+  private readonly AIR_FLOW_EXHAUST = 2;
+
+  /** Id of the device the function block belongs to */
+  private readonly dsDeviceId: string;
+  /** Service subtype, only set if the device has several function blocks */
+  private readonly subtype?: string;
+  /** Service name */
+  private readonly name: string;
+
+  /**
+   * Constructs a new FanPlatformAccessory.
+   * @param platform The DigitalStromPlatform instance.
+   * @param accessory The Homebridge PlatformAccessory instance.
+   * @param device The function block handled by this instance.
+   */
+  constructor(
+    private readonly platform: DigitalStromPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly device: FunctionBlock,
+  ) {
+    this.dsDeviceId = this.accessory.context.dsDevice.id;
+    this.subtype = this.platform.getServiceSubtype(this.accessory, this.device);
+    this.name = this.platform.getServiceName(this.accessory, this.device);
+
+    // Remove services of a previous device type of this function block
+    this.platform.removeStaleDeviceServices(this.accessory, this.platform.Service.Fanv2, this.subtype);
+
+    // Get the Fanv2 service if it exists, otherwise create a new one
+    this.service = this.platform.getOrAddService(this.accessory, this.platform.Service.Fanv2, this.name, this.subtype);
+
+    // Set the service name
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.name);
+
+    for (const output of this.device.attributes?.outputs ?? []) {
+      if (output.attributes?.type) {
+        this.outputs.set(output.attributes.type, output);
+      }
+    }
+
+    this.service.getCharacteristic(this.platform.Characteristic.Active)
+      .onSet(this.setActive.bind(this))
+      .onGet(this.getActive.bind(this));
+
+    this.registerOptionalCharacteristic(this.platform.Characteristic.RotationSpeed, 'airFlowIntensity',
+      (value) => this.toPercent('airFlowIntensity', value),
+      (value) => this.fromPercent('airFlowIntensity', value));
+
+    this.registerOptionalCharacteristic(this.platform.Characteristic.RotationDirection, 'airFlowDirection',
+      (value) => value === this.AIR_FLOW_EXHAUST
+        ? this.platform.Characteristic.RotationDirection.COUNTER_CLOCKWISE
+        : this.platform.Characteristic.RotationDirection.CLOCKWISE,
+      (value) => value === this.platform.Characteristic.RotationDirection.COUNTER_CLOCKWISE
+        ? this.AIR_FLOW_EXHAUST
+        : this.AIR_FLOW_SUPPLY);
+
+    this.registerOptionalCharacteristic(this.platform.Characteristic.SwingMode, 'ventilationSwingMode',
+      (value) => value > 0
+        ? this.platform.Characteristic.SwingMode.SWING_ENABLED
+        : this.platform.Characteristic.SwingMode.SWING_DISABLED,
+      (value) => value === this.platform.Characteristic.SwingMode.SWING_ENABLED ? 1 : 0);
+
+    this.registerOptionalCharacteristic(this.platform.Characteristic.TargetFanState, 'ventilationAutoIntensity',
+      (value) => value > 0
+        ? this.platform.Characteristic.TargetFanState.AUTO
+        : this.platform.Characteristic.TargetFanState.MANUAL,
+      (value) => value === this.platform.Characteristic.TargetFanState.AUTO ? 1 : 0);
+
+    this.platform.log.debug('FanPlatformAccessory created for:', this.accessory.displayName);
+  }
+
+  /**
+   * Registers handlers for an optional characteristic backed by a single output,
+   * or removes the characteristic if the device has no such output.
+   * @param characteristic The characteristic type.
+   * @param outputType The output type backing the characteristic.
+   * @param toCharacteristic Converts an output value to a characteristic value.
+   * @param toOutput Converts a characteristic value to an output value.
+   */
+  private registerOptionalCharacteristic(
+    characteristic: WithUUID<typeof Characteristic> & (new () => Characteristic),
+    outputType: string,
+    toCharacteristic: (value: number) => number,
+    toOutput: (value: number) => number,
+  ): void {
+    if (!this.outputs.has(outputType)) {
+      if (this.service.testCharacteristic(characteristic)) {
+        this.service.removeCharacteristic(this.service.getCharacteristic(characteristic));
+      }
+      return;
+    }
+
+    this.service.getCharacteristic(characteristic)
+      .onSet(async (value: CharacteristicValue) => this.setOutput(outputType, toOutput(Number(value))))
+      .onGet(() => toCharacteristic(this.values.get(outputType) ?? 0));
+    this.mappings.push({ characteristic, outputType, toCharacteristic });
+  }
+
+  /**
+   * Converts an output value (output min to max) to percent.
+   * @param outputType The output type.
+   * @param value The output value.
+   */
+  private toPercent(outputType: string, value: number): number {
+    const min = this.outputs.get(outputType)?.attributes?.min ?? 0;
+    const max = this.outputs.get(outputType)?.attributes?.max ?? 100;
+    return max > min ? Math.round(Math.min(Math.max((value - min) / (max - min) * 100, 0), 100)) : 0;
+  }
+
+  /**
+   * Converts percent to an output value (output min to max).
+   * @param outputType The output type.
+   * @param value The value in percent.
+   */
+  private fromPercent(outputType: string, value: number): number {
+    const min = this.outputs.get(outputType)?.attributes?.min ?? 0;
+    const max = this.outputs.get(outputType)?.attributes?.max ?? 100;
+    return Math.round(min + value / 100 * (max - min));
+  }
+
+  /**
+   * Writes an output value of the device.
+   * @param outputType The output type.
+   * @param value The output value.
+   */
+  private async setOutput(outputType: string, value: number): Promise<void> {
+    const deviceId = this.dsDeviceId;
+    const deviceName = this.name;
+
+    try {
+      await this.platform.dsAPI.setDeviceOutputValue(deviceId, this.device.id, this.outputs.get(outputType)!.id, value);
+      this.values.set(outputType, value);
+      this.platform.log.info(`${deviceName} ${outputType} → ${value}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set ${outputType} for ${deviceName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Turns the ventilation on or off.
+   * Called by Homebridge when the user toggles the fan.
+   * @param value The new Active value.
+   */
+  async setActive(value: CharacteristicValue) {
+    const deviceId = this.dsDeviceId;
+    const deviceName = this.name;
+    const active = value === this.platform.Characteristic.Active.ACTIVE;
+
+    try {
+      await this.platform.dsAPI.invokeScenario({ context: 'applicationDevice', actionId: active ? 'on' : 'off', dsDevice: deviceId });
+      this.platform.log.info(`${deviceName} → ${active ? 'On' : 'Off'}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set ${deviceName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Gets the current Active state.
+   * The ventilation is active if it is powered (powerState) or has an air flow above zero.
+   */
+  async getActive(): Promise<CharacteristicValue> {
+    const powerState = this.values.get('powerState');
+    const active = powerState !== undefined ? powerState > 0 : (this.values.get('airFlowIntensity') ?? 0) > 0;
+    return active ? this.platform.Characteristic.Active.ACTIVE : this.platform.Characteristic.Active.INACTIVE;
+  }
+
+  /**
+   * Updates the accessory state from the latest apartment status.
+   * Called by the platform when apartment status changes.
+   * @param apartmentStatus The latest apartment status object.
+   */
+  public async updateState(apartmentStatus: ApartmentStatus): Promise<void> {
+    this.platform.log.debug(`Updating state for ${this.name}`);
+
+    const functionBlockStatus = this.platform.getFunctionBlockStatus(apartmentStatus, this.dsDeviceId, this.device.id);
+
+    // Sometimes output status is not available (i.e. during DSS maintenance tasks)
+    // Only trigger update if new status is available
+    if (!functionBlockStatus?.outputs) {
+      this.platform.log.debug(`No output status available for ${this.name}`);
+      return;
+    }
+
+    for (const [outputType, output] of this.outputs) {
+      const value = functionBlockStatus.outputs.find((o: OutputStatus) => o.id === output.id)?.value;
+      if (typeof value === 'number' && !isNaN(value)) {
+        this.values.set(outputType, value);
+      }
+    }
+
+    this.service.updateCharacteristic(this.platform.Characteristic.Active, await this.getActive());
+    for (const { characteristic, outputType, toCharacteristic } of this.mappings) {
+      this.service.updateCharacteristic(characteristic, toCharacteristic(this.values.get(outputType) ?? 0));
+    }
+  }
+}
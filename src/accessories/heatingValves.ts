@@ -0,0 +1,116 @@
+import type { PlatformAccessory, Service } from 'homebridge';
+import type { DigitalStromPlatform } from '../platform.js';
+import type { AccessoryHandler, ApartmentStatus, FunctionBlock, Output, OutputStatus } from '../types/digitalStromTypes.js';
+
+
+/**
+ * Represents a Homebridge accessory for a digitalSTROM heating actuator.
+ * Exposed as read-only Valve, active while heating or cooling, with the power level as Eve valve position.
+ */
+export class HeatingValvePlatformAccessory implements AccessoryHandler {
+  /** The Homebridge Valve service */
+  private service: Service;
+  /** heatingPower and coolingCapacity outputs of the device */
+  private outputs: Output[];
+  /** Cached power level (0-100) */
+  private level = 0;
+
+  /** Id of the device the function block belongs to */
+  private readonly dsDeviceId: string;
+  /** Service subtype, only set if the device has several function blocks */
+  private readonly subtype?: string;
+  /** Service name */
+  private readonly name: string;
+
+  /**
+   * Constructs a new HeatingValvePlatformAccessory.
+   * @param platform The DigitalStromPlatform instance.
+   * @param accessory The Homebridge PlatformAccessory instance.
+   * @param device The function block handled by this instance.
+   */
+  constructor(
+    private readonly platform: DigitalStromPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly device: FunctionBlock,
+  ) {
+    this.dsDeviceId = this.accessory.context.dsDevice.id;
+    this.subtype = this.platform.getServiceSubtype(this.accessory, this.device);
+    this.name = this.platform.getServiceName(this.accessory, this.device);
+
+    // Remove services of a previous device type of this function block
+    this.platform.removeStaleDeviceServices(this.accessory, this.platform.Service.Valve, this.subtype);
+
+    // Get the Valve service if it exists, otherwise create a new one
+    this.service = this.platform.getOrAddService(this.accessory, this.platform.Service.Valve, this.name, this.subtype);
+
+    // Set the service name
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.name);
+    this.service.setCharacteristic(this.platform.Characteristic.ValveType, this.platform.Characteristic.ValveType.GENERIC_VALVE);
+
+    this.outputs = (this.device.attributes?.outputs ?? [])
+      .filter((o: Output) => o.attributes?.type === 'heatingPower' || o.attributes?.type === 'coolingCapacity');
+
+    // The power level is controlled by the dSS climate control, so the valve is read-only
+    const readOnly = [this.platform.api.hap.Perms.PAIRED_READ, this.platform.api.hap.Perms.NOTIFY];
+    this.service.getCharacteristic(this.platform.Characteristic.Active)
+      .setProps({ perms: readOnly })
+      .onGet(() => this.level > 0 ? this.platform.Characteristic.Active.ACTIVE : this.platform.Characteristic.Active.INACTIVE);
+    this.service.getCharacteristic(this.platform.Characteristic.InUse)
+      .onGet(() => this.level > 0 ? this.platform.Characteristic.InUse.IN_USE : this.platform.Characteristic.InUse.NOT_IN_USE);
+
+    // Eve valve position, declared optional so HAP adds it without warning
+    this.service.addOptionalCharacteristic(this.platform.EveCharacteristic.ValvePosition);
+    this.service.getCharacteristic(this.platform.EveCharacteristic.ValvePosition)
+      .onGet(() => this.level);
+
+    this.platform.log.debug('HeatingValvePlatformAccessory created for:', this.accessory.displayName);
+  }
+
+  /**
+   * Converts an output value (output min to max) to percent.
+   * @param output The heatingPower or coolingCapacity output.
+   * @param value The output value.
+   */
+  private toPercent(output: Output, value: number): number {
+    const min = output.attributes?.min ?? 0;
+    const max = output.attributes?.max ?? 100;
+    return max > min ? Math.round(Math.min(Math.max((value - min) / (max - min) * 100, 0), 100)) : 0;
+  }
+
+  /**
+   * Updates the accessory state from the latest apartment status.
+   * Called by the platform when apartment status changes.
+   * @param apartmentStatus The latest apartment status object.
+   */
+  public async updateState(apartmentStatus: ApartmentStatus): Promise<void> {
+    this.platform.log.debug(`Updating state for ${this.name}`);
+
+    const functionBlockStatus = this.platform.getFunctionBlockStatus(apartmentStatus, this.dsDeviceId, this.device.id);
+
+    // Sometimes output status is not available (i.e. during DSS maintenance tasks)
+    // Only trigger update if new status is available
+    if (!functionBlockStatus?.outputs) {
+      this.platform.log.debug(`No output status available for ${this.name}`);
+      return;
+    }
+
+    // Heating and cooling do not run at the same time, the level is the one of the running output
+    const outputs = functionBlockStatus.outputs;
+    const levels = this.outputs
+      .map((output) => ({ output, value: outputs.find((o: OutputStatus) => o.id === output.id)?.value }))
+      .filter((entry): entry is { output: Output; value: number } => typeof entry.value === 'number' && !isNaN(entry.value))
+      .map(({ output, value }) => this.toPercent(output, value));
+
+    if (levels.length === 0) {
+      return;
+    }
+
+    this.level = Math.max(...levels);
+    const active = this.level > 0;
+    this.service.updateCharacteristic(this.platform.Characteristic.Active,
+      active ? this.platform.Characteristic.Active.ACTIVE : this.platform.Characteristic.Active.INACTIVE);
+    this.service.updateCharacteristic(this.platform.Characteristic.InUse,
+      active ? this.platform.Characteristic.InUse.IN_USE : this.platform.Characteristic.InUse.NOT_IN_USE);
+    this.service.updateCharacteristic(this.platform.EveCharacteristic.ValvePosition, this.level);
+  }
+}
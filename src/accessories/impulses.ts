@@ -0,0 +1,198 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import type { DigitalStromPlatform } from '../platform.js';
+import type { AccessoryHandler, ApartmentStatus, BinaryInputStatus, DeviceStatus, FunctionBlock } from '../types/digitalStromTypes.js';
+
+
+/**
+ * Represents a Homebridge accessory for a digitalSTROM relay wired to a door opener or gate.
+ * Exposed as LockMechanism or GarageDoorOpener, depending on the plugin config. Both send an impulse to the device.
+ */
+export class ImpulsePlatformAccessory implements AccessoryHandler {
+  /** The Homebridge LockMechanism or GarageDoorOpener service */
+  private service: Service;
+  /** Whether the accessory is exposed as garage door (else as lock) */
+  private garageDoor: boolean;
+  /** Cached state, true if the lock is unsecured or the door is open */
+  private open = false;
+  /** Seconds until the lock is secured or the door closed again */
+  private autoResetTime: number;
+  /** dSUID of the device whose binary input reports the state, if configured */
+  private stateDevice?: string;
+  /** Id of the binary input of the state device, if configured */
+  private stateInput?: string;
+  /** Timer resetting the state after an impulse */
+  private autoResetTimer: NodeJS.Timeout | null = null;
+
+  /** Default seconds until a lock is secured again */
+  private readonly DEFAULT_LOCK_RESET_TIME = 5;
+  /** Default seconds until a garage door is closed again */
+  private readonly DEFAULT_GARAGE_DOOR_RESET_TIME = 60;
+
+  /** Id of the device the function block belongs to */
+  private readonly dsDeviceId: string;
+  /** Service subtype, only set if the device has several function blocks */
+  private readonly subtype?: string;
+  /** Service name */
+  private readonly name: string;
+
+  /**
+   * Constructs a new ImpulsePlatformAccessory.
+   * @param platform The DigitalStromPlatform instance.
+   * @param accessory The Homebridge PlatformAccessory instance.
+   * @param device The function block handled by this instance.
+   */
+  constructor(
+    private readonly platform: DigitalStromPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly device: FunctionBlock,
+  ) {
+    this.dsDeviceId = this.accessory.context.dsDevice.id;
+    this.subtype = this.platform.getServiceSubtype(this.accessory, this.device);
+    this.name = this.platform.getServiceName(this.accessory, this.device);
+
+    const relayConfig = this.platform.config.options?.relays?.find((r) => r.id === this.dsDeviceId);
+    this.garageDoor = this.platform.getRelayType(this.dsDeviceId) === 'garageDoor';
+    this.autoResetTime = relayConfig?.autoResetTime
+      ?? (this.garageDoor ? this.DEFAULT_GARAGE_DOOR_RESET_TIME : this.DEFAULT_LOCK_RESET_TIME);
+    this.stateDevice = relayConfig?.stateDevice;
+    this.stateInput = relayConfig?.stateInput;
+
+    const serviceType = this.garageDoor ? this.platform.Service.GarageDoorOpener : this.platform.Service.LockMechanism;
+    this.platform.removeStaleDeviceServices(this.accessory, serviceType, this.subtype);
+
+    this.service = this.platform.getOrAddService(this.accessory, serviceType, this.name, this.subtype);
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.name);
+
+    if (this.garageDoor) {
+      this.service.getCharacteristic(this.platform.Characteristic.CurrentDoorState)
+        .onGet(() => this.getDoorState());
+      this.service.getCharacteristic(this.platform.Characteristic.TargetDoorState)
+        .onSet(this.setTargetState.bind(this))
+        .onGet(() => this.getDoorState());
+      this.service.getCharacteristic(this.platform.Characteristic.ObstructionDetected)
+        .onGet(() => false);
+    } else {
+      this.service.getCharacteristic(this.platform.Characteristic.LockCurrentState)
+        .onGet(() => this.getLockState());
+      this.service.getCharacteristic(this.platform.Characteristic.LockTargetState)
+        .onSet(this.setTargetState.bind(this))
+        .onGet(() => this.getLockState());
+    }
+
+    this.platform.log.debug('ImpulsePlatformAccessory created for:', this.accessory.displayName);
+  }
+
+  /**
+   * Returns the HomeKit door state for the cached state.
+   */
+  private getDoorState(): number {
+    return this.open
+      ? this.platform.Characteristic.CurrentDoorState.OPEN
+      : this.platform.Characteristic.CurrentDoorState.CLOSED;
+  }
+
+  /**
+   * Returns the HomeKit lock state for the cached state.
+   */
+  private getLockState(): number {
+    return this.open
+      ? this.platform.Characteristic.LockCurrentState.UNSECURED
+      : this.platform.Characteristic.LockCurrentState.SECURED;
+  }
+
+  /**
+   * Updates the cached state and the current and target characteristics.
+   * @param open True if the lock is unsecured or the door is open.
+   */
+  private setState(open: boolean): void {
+    this.open = open;
+    if (this.garageDoor) {
+      this.service.updateCharacteristic(this.platform.Characteristic.TargetDoorState, this.getDoorState());
+      this.service.updateCharacteristic(this.platform.Characteristic.CurrentDoorState, this.getDoorState());
+    } else {
+      this.service.updateCharacteristic(this.platform.Characteristic.LockTargetState, this.getLockState());
+      this.service.updateCharacteristic(this.platform.Characteristic.LockCurrentState, this.getLockState());
+    }
+  }
+
+  /**
+   * Clears a running auto reset timer.
+   */
+  private clearAutoResetTimer(): void {
+    if (this.autoResetTimer) {
+      clearTimeout(this.autoResetTimer);
+      this.autoResetTimer = null;
+    }
+  }
+
+  /**
+   * Unlocks the door or opens/closes the gate by sending an impulse.
+   * A lock cannot be secured by an impulse, so securing only resets the state.
+   * @param value The new LockTargetState or TargetDoorState value.
+   */
+  async setTargetState(value: CharacteristicValue) {
+    const deviceId = this.dsDeviceId;
+    const deviceName = this.name;
+    // OPEN and UNSECURED are both 0
+    const open = value === 0;
+
+    if (!open && !this.garageDoor) {
+      this.clearAutoResetTimer();
+      this.setState(false);
+      return;
+    }
+
+    // A gate toggles on every impulse, so only send one if the state changes
+    if (this.garageDoor && open === this.open) {
+      return;
+    }
+
+    try {
+      await this.platform.dsAPI.invokeScenario({ context: 'applicationDevice', actionId: 'impulse', dsDevice: deviceId });
+      this.platform.log.info(`${deviceName} → ${this.garageDoor ? (open ? 'Open' : 'Close') : 'Unlock'}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to send impulse to ${deviceName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+
+    this.clearAutoResetTimer();
+    this.setState(open);
+
+    // Without a paired binary input, the state is reset after the configured time
+    if (open && !this.stateDevice) {
+      this.autoResetTimer = setTimeout(() => {
+        this.autoResetTimer = null;
+        this.setState(false);
+        this.platform.log.debug(`${deviceName} → ${this.garageDoor ? 'Closed' : 'Locked'} (auto reset)`);
+      }, this.autoResetTime * 1000);
+    }
+  }
+
+  /**
+   * Updates the accessory state from the binary input of the paired device, if configured.
+   * Called by the platform when apartment status changes.
+   * @param apartmentStatus The latest apartment status object.
+   */
+  public async updateState(apartmentStatus: ApartmentStatus): Promise<void> {
+    if (!this.stateDevice) {
+      return;
+    }
+
+    const deviceStatus = apartmentStatus?.included?.dsDevices?.find((d: DeviceStatus) => d.id === this.stateDevice);
+    // The binary input may belong to any function block of the paired device
+    const value = (deviceStatus?.attributes?.functionBlocks ?? [])
+      .flatMap((fb) => fb.binaryInputs ?? [])
+      .find((b: BinaryInputStatus) => (this.stateInput ? b.id === this.stateInput : b.value !== undefined))?.value;
+
+    if (value === undefined) {
+      this.platform.log.debug(`No binary input status available for ${this.name}`);
+      return;
+    }
+
+    const open = value === true || Number(value) > 0;
+    if (open !== this.open) {
+      this.setState(open);
+      this.platform.log.debug(`${this.name} → ${open ? 'Open' : 'Closed'}`);
+    }
+  }
+}
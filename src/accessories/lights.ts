@@ -1,6 +1,86 @@
-import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import type { AdaptiveLightingController, CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
 import type { DigitalStromPlatform } from '../platform.js';
-import type { AccessoryHandler, FunctionBlock, Output, ApartmentStatus, DeviceStatus, OutputStatus } from '../types/digitalStromTypes.js';
+import type { AccessoryHandler, FunctionBlock, Output, ApartmentStatus, OutputStatus } from '../types/digitalStromTypes.js';
+
+/** HomeKit ColorTemperature range in mired */
+const MIN_COLOR_TEMPERATURE = 140;
+const MAX_COLOR_TEMPERATURE = 500;
+/** Deviation (mired) between the reported and the last written color temperature that counts as an external color change */
+const COLOR_TEMPERATURE_TOLERANCE = 5;
+/** Deviation of the reported hue (degrees) and saturation (percent) that counts as an external color change */
+const HUE_TOLERANCE = 5;
+const SATURATION_TOLERANCE = 5;
+/** Delay (ms) to collect hue and saturation changes sent together by HomeKit into one write */
+const COLOR_WRITE_DELAY = 20;
+
+/**
+ * Converts CIE 1931 xy chromaticity coordinates to HomeKit hue (0-360) and saturation (0-100).
+ * Brightness is handled separately, so the color is converted at full luminance.
+ * @param x CIE x coordinate (0-1).
+ * @param y CIE y coordinate (0-1).
+ */
+function xyToHueSaturation(x: number, y: number): { hue: number; saturation: number } {
+  if (y <= 0) {
+    return { hue: 0, saturation: 0 };
+  }
+
+  // xyY → XYZ with Y = 1
+  const X = x / y;
+  const Z = (1 - x - y) / y;
+
+  // XYZ → linear sRGB (D65)
+  const rgb = [
+    X * 3.2406 - 1.5372 - Z * 0.4986,
+    -X * 0.9689 + 1.8758 + Z * 0.0415,
+    X * 0.0557 - 0.2040 + Z * 1.0570,
+  ].map((c) => Math.max(c, 0));
+
+  // Normalize to the brightest channel, then RGB → HSV
+  const max = Math.max(...rgb);
+  if (max === 0) {
+    return { hue: 0, saturation: 0 };
+  }
+  const [r, g, b] = rgb.map((c) => c / max);
+  const min = Math.min(r, g, b);
+  const delta = 1 - min;
+
+  let hue = 0;
+  if (delta > 0.01) {
+    if (r === 1) {
+      hue = 60 * (((g - b) / delta) % 6);
+    } else if (g === 1) {
+      hue = 60 * ((b - r) / delta + 2);
+    } else {
+      hue = 60 * ((r - g) / delta + 4);
+    }
+  }
+
+  return { hue: Math.round((hue + 360) % 360), saturation: Math.round(delta * 100) };
+}
+
+/**
+ * Converts HomeKit hue (0-360) and saturation (0-100) to CIE 1931 xy chromaticity coordinates.
+ * @param hue Hue in degrees.
+ * @param saturation Saturation in percent.
+ */
+function hueSaturationToXy(hue: number, saturation: number): { x: number; y: number } {
+  // HSV → RGB at full value
+  const s = saturation / 100;
+  const k = (n: number) => (n + hue / 60) % 6;
+  const f = (n: number) => 1 - s * Math.max(0, Math.min(k(n), 4 - k(n), 1));
+  const [r, g, b] = [f(5), f(3), f(1)];
+
+  // linear sRGB → XYZ (D65)
+  const X = r * 0.4124 + g * 0.3576 + b * 0.1805;
+  const Y = r * 0.2126 + g * 0.7152 + b * 0.0722;
+  const Z = r * 0.0193 + g * 0.1192 + b * 0.9505;
+  const sum = X + Y + Z;
+
+  if (sum === 0) {
+    return { x: 0.3127, y: 0.3290 }; // D65 white point
+  }
+  return { x: Number((X / sum).toFixed(4)), y: Number((Y / sum).toFixed(4)) };
+}
 
 
 /**
@@ -16,36 +96,77 @@ export class LightPlatformAccessory implements AccessoryHandler {
   private targetValue = 0;
   /** Cached brightness value */
   private brightness = 0;
+  /** Hue output, if the light supports it */
+  private hueOutput?: Output;
+  /** Saturation output, if the light supports it */
+  private saturationOutput?: Output;
+  /** CIE x/y outputs, used for lights that only support xy color */
+  private cieXOutput?: Output;
+  private cieYOutput?: Output;
+  /** Color temperature output, if the light supports it */
+  private colorTemperatureOutput?: Output;
+  /** Cached hue value (0-360) */
+  private hue = 0;
+  /** Cached saturation value (0-100) */
+  private saturation = 0;
+  /** Scheduled color write, shared by hue and saturation changes arriving together */
+  private colorWrite?: Promise<void>;
+  /** Cached color temperature in mired */
+  private colorTemperature = MIN_COLOR_TEMPERATURE;
+  /** Adaptive Lighting controller, only for dimmable lights with a color temperature output */
+  private adaptiveLightingController?: AdaptiveLightingController;
+  /** Color temperature (mired) last written to the device, undefined until the first write */
+  private writtenColorTemperature?: number;
+  /** Number of color temperature writes in flight */
+  private pendingColorTemperatureWrites = 0;
+  /** Hue and saturation last reported by the dSS, undefined until the first report */
+  private reportedColor?: { hue: number; saturation: number };
+
+  /** Id of the device the function block belongs to */
+  private readonly dsDeviceId: string;
+  /** Service subtype, only set if the device has several function blocks */
+  private readonly subtype?: string;
+  /** Service name */
+  private readonly name: string;
 
   /**
    * Constructs a new LightPlatformAccessory.
    * @param platform The DigitalStromPlatform instance.
    * @param accessory The Homebridge PlatformAccessory instance.
+   * @param device The function block handled by this instance.
    */
   constructor(
     private readonly platform: DigitalStromPlatform,
     private readonly accessory: PlatformAccessory,
+    private readonly device: FunctionBlock,
   ) {
-    // Set accessory information
-    this.accessory.getService(this.platform.Service.AccessoryInformation)!
-      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'DigitalSTROM')
-      .setCharacteristic(this.platform.Characteristic.Model, this.accessory.context.device.attributes?.technicalName || 'Light')
-      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.context.device.id);
+    this.dsDeviceId = this.accessory.context.dsDevice.id;
+    this.subtype = this.platform.getServiceSubtype(this.accessory, this.device);
+    this.name = this.platform.getServiceName(this.accessory, this.device);
+
+    // Remove services of a previous device type of this function block
+    this.platform.removeStaleDeviceServices(this.accessory, this.platform.Service.Lightbulb, this.subtype);
 
     // Get the Lightbulb service if it exists, otherwise create a new one
-    this.service = this.accessory.getService(this.platform.Service.Lightbulb) 
-      || this.accessory.addService(this.platform.Service.Lightbulb);
+    this.service = this.platform.getOrAddService(this.accessory, this.platform.Service.Lightbulb, this.name, this.subtype);
 
     // Set the service name
-    this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName);
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.name);
 
     // Check if device supports brightness (gradual control)
-    const device = this.accessory.context.device as FunctionBlock;
-    const brightnessOutput = device.attributes?.outputs?.find(
+    const brightnessOutput = this.device.attributes?.outputs?.find(
       (o: Output) => o.attributes?.type === 'lightBrightness' && o.attributes?.mode === 'gradual',
     );
     this.hasBrightness = !!brightnessOutput;
 
+    // Check if device supports color (hue/saturation or CIE xy) and color temperature
+    const findOutput = (type: string) => this.device.attributes?.outputs?.find((o: Output) => o.attributes?.type === type);
+    this.hueOutput = findOutput('lightHue');
+    this.saturationOutput = findOutput('lightSaturation');
+    this.cieXOutput = findOutput('lightCieX');
+    this.cieYOutput = findOutput('lightCieY');
+    this.colorTemperatureOutput = findOutput('lightTemperature');
+
     // Register handlers for the On/Off Characteristic
     this.service.getCharacteristic(this.platform.Characteristic.On)
       .onSet(this.setOn.bind(this))
@@ -60,6 +181,40 @@ export class LightPlatformAccessory implements AccessoryHandler {
       this.service.removeCharacteristic(this.service.getCharacteristic(this.platform.Characteristic.Brightness));
     }
 
+    // Register handlers for the Hue and Saturation Characteristics only if supported
+    if (this.hasColor()) {
+      this.service.getCharacteristic(this.platform.Characteristic.Hue)
+        .onSet(this.setHue.bind(this))
+        .onGet(this.getHue.bind(this));
+      this.service.getCharacteristic(this.platform.Characteristic.Saturation)
+        .onSet(this.setSaturation.bind(this))
+        .onGet(this.getSaturation.bind(this));
+    } else {
+      for (const characteristic of [this.platform.Characteristic.Hue, this.platform.Characteristic.Saturation]) {
+        if (this.service.testCharacteristic(characteristic)) {
+          this.service.removeCharacteristic(this.service.getCharacteristic(characteristic));
+        }
+      }
+    }
+
+    // Register handlers for the ColorTemperature Characteristic only if supported
+    if (this.colorTemperatureOutput) {
+      this.service.getCharacteristic(this.platform.Characteristic.ColorTemperature)
+        .setProps({ minValue: this.getMinColorTemperature(), maxValue: this.getMaxColorTemperature() })
+        .onSet(this.setColorTemperature.bind(this))
+        .onGet(this.getColorTemperature.bind(this));
+    } else if (this.service.testCharacteristic(this.platform.Characteristic.ColorTemperature)) {
+      this.service.removeCharacteristic(this.service.getCharacteristic(this.platform.Characteristic.ColorTemperature));
+    }
+
+    // Register Adaptive Lighting for tunable white lights.
+    // In automatic mode the controller schedules the transitions itself and writes the
+    // ColorTemperature characteristic, which ends up in setColorTemperature.
+    if (this.colorTemperatureOutput && this.hasBrightness) {
+      this.adaptiveLightingController = new this.platform.api.hap.AdaptiveLightingController(this.service);
+      this.accessory.configureController(this.adaptiveLightingController);
+    }
+
     this.platform.log.debug('LightPlatformAccessory created for:', this.accessory.displayName);
   }
 
@@ -69,8 +224,8 @@ export class LightPlatformAccessory implements AccessoryHandler {
    * @param value The new On/Off value (true for on, false for off).
    */
   async setOn(value: CharacteristicValue) {
-    const deviceId = this.accessory.context.device.id;
-    const deviceName = this.accessory.context.device.attributes?.name;
+    const deviceId = this.dsDeviceId;
+    const deviceName = this.name;
     
     try {
       if (value as boolean) {
@@ -102,8 +257,8 @@ export class LightPlatformAccessory implements AccessoryHandler {
    * @param value The new brightness value (0-100).
    */
   async setBrightness(value: CharacteristicValue) {
-    const deviceId = this.accessory.context.device.id;
-    const deviceName = this.accessory.context.device.attributes?.name;
+    const deviceId = this.dsDeviceId;
+    const deviceName = this.name;
     
     try {
       if (value === 100) {
@@ -111,7 +266,7 @@ export class LightPlatformAccessory implements AccessoryHandler {
       } else if (value === 0) {
         await this.platform.dsAPI.invokeScenario({ context: 'applicationDevice', actionId: 'off', dsDevice: deviceId });
       } else {
-        await this.platform.dsAPI.setDeviceOutputValue(deviceId, deviceId, 'brightness', value);
+        await this.platform.dsAPI.setDeviceOutputValue(deviceId, this.device.id, 'brightness', value);
       }
       this.platform.log.info(`${deviceName} brightness → ${value}`);
     } catch (error) {
@@ -130,25 +285,172 @@ export class LightPlatformAccessory implements AccessoryHandler {
     return this.brightness;
   }
 
+  /**
+   * Whether the light supports color, either via hue/saturation or CIE xy outputs.
+   */
+  private hasColor(): boolean {
+    return (!!this.hueOutput && !!this.saturationOutput) || (!!this.cieXOutput && !!this.cieYOutput);
+  }
+
+  /**
+   * Lowest color temperature (mired) supported by both the output and HomeKit.
+   */
+  private getMinColorTemperature(): number {
+    const min = this.colorTemperatureOutput?.attributes?.min ?? MIN_COLOR_TEMPERATURE;
+    return Math.min(Math.max(min, MIN_COLOR_TEMPERATURE), MAX_COLOR_TEMPERATURE);
+  }
+
+  /**
+   * Highest color temperature (mired) supported by both the output and HomeKit.
+   */
+  private getMaxColorTemperature(): number {
+    const max = this.colorTemperatureOutput?.attributes?.max ?? MAX_COLOR_TEMPERATURE;
+    return Math.max(Math.min(max, MAX_COLOR_TEMPERATURE), this.getMinColorTemperature());
+  }
+
+  /**
+   * Schedules a write of the cached hue and saturation to the device.
+   * HomeKit usually sends hue and saturation together, so both changes are collected into a single write.
+   * @returns A promise resolving once the color has been written.
+   */
+  private scheduleColorWrite(): Promise<void> {
+    this.colorWrite ??= new Promise<void>((resolve) => setTimeout(resolve, COLOR_WRITE_DELAY))
+      .then(() => {
+        this.colorWrite = undefined;
+        return this.writeColor();
+      });
+    return this.colorWrite;
+  }
+
+  /**
+   * Writes the cached hue and saturation to the device in a single request.
+   * Lights without hue/saturation outputs get the color as CIE xy coordinates.
+   */
+  private async writeColor(): Promise<void> {
+    const deviceId = this.dsDeviceId;
+
+    if (this.hueOutput && this.saturationOutput) {
+      await this.platform.dsAPI.setDeviceOutputValues(deviceId, this.device.id, [
+        { outputId: this.hueOutput.id, value: this.hue },
+        { outputId: this.saturationOutput.id, value: this.saturation },
+      ]);
+    } else if (this.cieXOutput && this.cieYOutput) {
+      const { x, y } = hueSaturationToXy(this.hue, this.saturation);
+      await this.platform.dsAPI.setDeviceOutputValues(deviceId, this.device.id, [
+        { outputId: this.cieXOutput.id, value: x },
+        { outputId: this.cieYOutput.id, value: y },
+      ]);
+    }
+  }
+
+  /**
+   * Sets the hue of the light.
+   * Called by Homebridge when the user changes the color.
+   * @param value The new hue value (0-360).
+   */
+  async setHue(value: CharacteristicValue) {
+    const deviceName = this.name;
+    const previousHue = this.hue;
+
+    try {
+      // The cached value is written together with the pending color change, and restored if the write fails
+      this.hue = Number(value);
+      await this.scheduleColorWrite();
+      this.platform.log.info(`${deviceName} hue → ${value}`);
+    } catch (error) {
+      this.hue = previousHue;
+      this.platform.log.error(`Failed to set hue for ${deviceName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Gets the current hue of the light.
+   * @returns The cached hue value (0-360).
+   */
+  async getHue(): Promise<CharacteristicValue> {
+    return this.hue;
+  }
+
+  /**
+   * Sets the saturation of the light.
+   * Called by Homebridge when the user changes the color.
+   * @param value The new saturation value (0-100).
+   */
+  async setSaturation(value: CharacteristicValue) {
+    const deviceName = this.name;
+    const previousSaturation = this.saturation;
+
+    try {
+      // The cached value is written together with the pending color change, and restored if the write fails
+      this.saturation = Number(value);
+      await this.scheduleColorWrite();
+      this.platform.log.info(`${deviceName} saturation → ${value}`);
+    } catch (error) {
+      this.saturation = previousSaturation;
+      this.platform.log.error(`Failed to set saturation for ${deviceName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Gets the current saturation of the light.
+   * @returns The cached saturation value (0-100).
+   */
+  async getSaturation(): Promise<CharacteristicValue> {
+    return this.saturation;
+  }
+
+  /**
+   * Sets the color temperature of the light.
+   * Called by Homebridge when the user changes the color temperature.
+   * @param value The new color temperature in mired.
+   */
+  async setColorTemperature(value: CharacteristicValue) {
+    const deviceId = this.dsDeviceId;
+    const deviceName = this.name;
+
+    this.pendingColorTemperatureWrites++;
+    try {
+      await this.platform.dsAPI.setDeviceOutputValue(deviceId, this.device.id, this.colorTemperatureOutput!.id, value);
+      this.colorTemperature = Number(value);
+      this.writtenColorTemperature = Number(value);
+      this.platform.log.info(`${deviceName} color temperature → ${value}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set color temperature for ${deviceName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    } finally {
+      this.pendingColorTemperatureWrites--;
+    }
+  }
+
+  /**
+   * Gets the current color temperature of the light.
+   * @returns The cached color temperature in mired.
+   */
+  async getColorTemperature(): Promise<CharacteristicValue> {
+    return this.colorTemperature;
+  }
+
   /**
    * Updates the accessory state from the latest apartment status.
    * Called by the platform when apartment status changes.
    * @param apartmentStatus The latest apartment status object.
    */
   public async updateState(apartmentStatus: ApartmentStatus): Promise<void> {
-    this.platform.log.debug(`Updating state for ${this.accessory.context.device.attributes?.name}`);
+    this.platform.log.debug(`Updating state for ${this.name}`);
 
-    const deviceId = this.accessory.context.device.id;
-    const deviceStatus = apartmentStatus?.included?.dsDevices?.find((d: DeviceStatus) => d.id === deviceId);
+    const functionBlockStatus = this.platform.getFunctionBlockStatus(apartmentStatus, this.dsDeviceId, this.device.id);
     
     // Sometimes output status is not available (i.e. during DSS maintenance tasks)
     // Only trigger update if new status is available
-    if (!deviceStatus?.attributes?.functionBlocks?.[0]?.outputs) {
-      this.platform.log.debug(`No output status available for ${this.accessory.context.device.attributes?.name}`);
+    if (!functionBlockStatus?.outputs) {
+      this.platform.log.debug(`No output status available for ${this.name}`);
       return;
     }
 
-    const brightnessOutput = deviceStatus.attributes.functionBlocks[0].outputs.find(
+    const outputs = functionBlockStatus.outputs;
+    const brightnessOutput = outputs.find(
       (o: OutputStatus) => o.id === 'brightness',
     );
 
@@ -163,5 +465,83 @@ export class LightPlatformAccessory implements AccessoryHandler {
         this.service.updateCharacteristic(this.platform.Characteristic.Brightness, this.brightness);
       }
     }
+
+    this.updateColorState(outputs);
   }
-}
+
+  /**
+   * Whether the reported color differs from the previously reported color beyond the tolerance.
+   * @param previous The previously reported hue and saturation.
+   * @param current The reported hue and saturation.
+   */
+  private isColorChanged(previous: { hue: number; saturation: number }, current: { hue: number; saturation: number }): boolean {
+    const hueDifference = Math.abs(current.hue - previous.hue) % 360;
+    return Math.min(hueDifference, 360 - hueDifference) > HUE_TOLERANCE
+      || Math.abs(current.saturation - previous.saturation) > SATURATION_TOLERANCE;
+  }
+
+  /**
+   * Disables Adaptive Lighting if it is active.
+   * HomeKit only disables Adaptive Lighting for changes made in HomeKit itself,
+   * color changes made via the dSS (e.g. wall switch scenes) are detected by updateColorState.
+   */
+  private disableAdaptiveLighting(): void {
+    if (this.adaptiveLightingController?.isAdaptiveLightingActive()) {
+      this.platform.log.info(`${this.accessory.displayName} color changed outside of HomeKit, disabling Adaptive Lighting`);
+      this.adaptiveLightingController.disableAdaptiveLighting();
+    }
+  }
+
+  /**
+   * Updates the color characteristics from the output status.
+   * Lights that only report CIE xy get their color converted to hue/saturation.
+   * @param outputs The output status of the light.
+   */
+  private updateColorState(outputs: OutputStatus[]): void {
+    const getValue = (output?: Output) => {
+      const value = output ? outputs.find((o: OutputStatus) => o.id === output.id)?.value : undefined;
+      return (typeof value === 'number' && !isNaN(value)) ? value : undefined;
+    };
+
+    if (this.hasColor()) {
+      const hue = getValue(this.hueOutput);
+      const saturation = getValue(this.saturationOutput);
+      const x = getValue(this.cieXOutput);
+      const y = getValue(this.cieYOutput);
+
+      let reportedColor: { hue: number; saturation: number } | undefined;
+      if (hue !== undefined && saturation !== undefined) {
+        reportedColor = { hue: Math.round(hue), saturation: Math.round(saturation) };
+      } else if (x !== undefined && y !== undefined) {
+        reportedColor = xyToHueSaturation(x, y);
+      }
+
+      if (reportedColor) {
+        // Adaptive Lighting only writes the color temperature, so a color change reported by the dSS was made outside of HomeKit
+        if (this.reportedColor && this.pendingColorTemperatureWrites === 0 && this.isColorChanged(this.reportedColor, reportedColor)) {
+          this.disableAdaptiveLighting();
+        }
+        this.reportedColor = reportedColor;
+        ({ hue: this.hue, saturation: this.saturation } = reportedColor);
+      }
+      this.service.updateCharacteristic(this.platform.Characteristic.Hue, this.hue);
+      this.service.updateCharacteristic(this.platform.Characteristic.Saturation, this.saturation);
+    }
+
+    const colorTemperature = getValue(this.colorTemperatureOutput);
+    if (colorTemperature !== undefined) {
+      // A status fetched while a write is in flight may still report the previous value, so it is not checked.
+      const colorTemperatureStatus = outputs.find((o: OutputStatus) => o.id === this.colorTemperatureOutput!.id);
+      const reportedTarget = Math.min(Math.max(Math.round(colorTemperatureStatus?.targetValue ?? colorTemperature),
+        this.getMinColorTemperature()), this.getMaxColorTemperature());
+      if (this.pendingColorTemperatureWrites === 0
+        && this.writtenColorTemperature !== undefined
+        && Math.abs(reportedTarget - this.writtenColorTemperature) > COLOR_TEMPERATURE_TOLERANCE) {
+        this.disableAdaptiveLighting();
+      }
+
+      this.colorTemperature = Math.min(Math.max(Math.round(colorTemperature), this.getMinColorTemperature()), this.getMaxColorTemperature());
+      this.service.updateCharacteristic(this.platform.Characteristic.ColorTemperature, this.colorTemperature);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,102 @@
+import type { PlatformAccessory, Service } from 'homebridge';
+import type { DigitalStromPlatform } from '../platform.js';
+import type { AccessoryHandler, MeteringType, MeteringValue, MeteringValues } from '../types/digitalStromTypes.js';
+
+
+/**
+ * Splits a metering value id into its origin (apartment or circuit) and metering type.
+ * @param id The metering value id, e.g. 'apartment.consumption'.
+ * @returns The origin and the metering type.
+ */
+export function splitMeteringId(id: string): { origin: string; meteringType: MeteringType } {
+  const separator = id.lastIndexOf('.');
+  if (separator < 0) {
+    return { origin: id, meteringType: '' };
+  }
+  return { origin: id.substring(0, separator), meteringType: id.substring(separator + 1) };
+}
+
+/**
+ * Represents a Homebridge accessory for the energy metering of the apartment or a single circuit.
+ * Exposes the current power (W) and total energy (kWh) as Eve characteristics.
+ */
+export class MeteringPlatformAccessory implements AccessoryHandler {
+  /** The Eve PowerMeter service */
+  private service: Service;
+  /** Cached current power consumption in W */
+  private consumption = 0;
+  /** Cached total energy in kWh */
+  private energy = 0;
+
+  /**
+   * Constructs a new MeteringPlatformAccessory.
+   * @param platform The DigitalStromPlatform instance.
+   * @param accessory The Homebridge PlatformAccessory instance.
+   */
+  constructor(
+    private readonly platform: DigitalStromPlatform,
+    private readonly accessory: PlatformAccessory,
+  ) {
+    // Set accessory information
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'DigitalSTROM')
+      .setCharacteristic(this.platform.Characteristic.Model, 'Metering')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.context.metering.id);
+
+    this.service = this.accessory.getService(this.platform.EveService.PowerMeter)
+      || this.accessory.addService(new this.platform.EveService.PowerMeter(this.accessory.displayName));
+
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName);
+
+    this.service.getCharacteristic(this.platform.EveCharacteristic.CurrentConsumption)
+      .onGet(() => this.consumption);
+    this.service.getCharacteristic(this.platform.EveCharacteristic.TotalConsumption)
+      .onGet(() => this.energy);
+
+    this.platform.log.debug('MeteringPlatformAccessory created for:', this.accessory.displayName);
+  }
+
+  /**
+   * Metering values are not part of the apartment status.
+   * Updates are handled by updateMeterings on the platform's metering polling interval.
+   */
+  public async updateState(): Promise<void> {
+    return;
+  }
+
+  /**
+   * Updates the accessory state from the latest metering values.
+   * Called by the platform on every metering poll.
+   * @param meteringValues The latest metering values.
+   */
+  public async updateMeterings(meteringValues: MeteringValues): Promise<void> {
+    const origin = this.accessory.context.metering.id as string;
+
+    for (const meteringValue of meteringValues.attributes?.values ?? []) {
+      const { origin: valueOrigin, meteringType } = splitMeteringId(meteringValue.id);
+      const value = meteringValue.attributes?.value;
+      if (valueOrigin !== origin || typeof value !== 'number' || isNaN(value)) {
+        continue;
+      }
+
+      if (meteringType === 'consumption') {
+        this.consumption = Math.max(value, 0);
+        this.service.updateCharacteristic(this.platform.EveCharacteristic.CurrentConsumption, this.consumption);
+      } else if (meteringType === 'energy') {
+        this.energy = Math.max(this.toKilowattHours(meteringValue), 0);
+        this.service.updateCharacteristic(this.platform.EveCharacteristic.TotalConsumption, this.energy);
+      }
+    }
+
+    this.platform.log.debug(`${this.accessory.displayName} → ${this.consumption} W, ${this.energy} kWh`);
+  }
+
+  /**
+   * Converts an energy metering value to kWh.
+   * @param meteringValue The energy metering value (reported in Wh unless stated otherwise).
+   */
+  private toKilowattHours(meteringValue: MeteringValue): number {
+    const value = meteringValue.attributes?.value ?? 0;
+    return meteringValue.attributes?.unit === 'kWh' ? value : value / 1000;
+  }
+}
@@ -0,0 +1,159 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import type { DigitalStromPlatform } from '../platform.js';
+import type {
+  AccessoryHandler, ApartmentStatus, FunctionBlock, MeteringValues, Output, OutputStatus, RelayType,
+} from '../types/digitalStromTypes.js';
+import { splitMeteringId } from './meterings.js';
+
+
+/**
+ * Represents a Homebridge accessory for a digitalSTROM relay or plug adapter.
+ * Exposed as Outlet or Switch, depending on the plugin config.
+ */
+export class RelayPlatformAccessory implements AccessoryHandler {
+  /** The Homebridge Outlet or Switch service */
+  private service: Service;
+  /** Configured service type */
+  private relayType: RelayType;
+  /** Switched output of the device */
+  private output?: Output;
+  /** Cached On/Off state */
+  private currentState = false;
+  /** Cached in-use state, derived from the power metering of the device if available */
+  private inUse = false;
+  /** Whether the device reports its power consumption */
+  private metered = false;
+
+  /** Power consumption (W) above which an outlet is in use */
+  private readonly IN_USE_THRESHOLD = 1;
+
+  /** Id of the device the function block belongs to */
+  private readonly dsDeviceId: string;
+  /** Service subtype, only set if the device has several function blocks */
+  private readonly subtype?: string;
+  /** Service name */
+  private readonly name: string;
+
+  /**
+   * Constructs a new RelayPlatformAccessory.
+   * @param platform The DigitalStromPlatform instance.
+   * @param accessory The Homebridge PlatformAccessory instance.
+   * @param device The function block handled by this instance.
+   */
+  constructor(
+    private readonly platform: DigitalStromPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly device: FunctionBlock,
+  ) {
+    this.dsDeviceId = this.accessory.context.dsDevice.id;
+    this.subtype = this.platform.getServiceSubtype(this.accessory, this.device);
+    this.name = this.platform.getServiceName(this.accessory, this.device);
+
+    this.relayType = this.platform.getRelayType(this.dsDeviceId);
+    const serviceType = this.relayType === 'switch' ? this.platform.Service.Switch : this.platform.Service.Outlet;
+    this.platform.removeStaleDeviceServices(this.accessory, serviceType, this.subtype);
+
+    this.service = this.platform.getOrAddService(this.accessory, serviceType, this.name, this.subtype);
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.name);
+
+    this.output = this.device.attributes?.outputs?.find((o: Output) => o.attributes?.type === 'powerState')
+      ?? this.device.attributes?.outputs?.find((o: Output) => o.attributes?.mode === 'switched');
+
+    this.service.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(this.setOn.bind(this))
+      .onGet(this.getOn.bind(this));
+
+    if (this.relayType === 'outlet') {
+      this.service.getCharacteristic(this.platform.Characteristic.OutletInUse)
+        .onGet(() => this.inUse);
+    }
+
+    this.platform.log.debug('RelayPlatformAccessory created for:', this.accessory.displayName);
+  }
+
+  /**
+   * Sets the On/Off state of the relay.
+   * Called by Homebridge when the user toggles the outlet or switch.
+   * @param value The new On/Off value (true for on, false for off).
+   */
+  async setOn(value: CharacteristicValue) {
+    const deviceId = this.dsDeviceId;
+    const deviceName = this.name;
+
+    try {
+      if (this.subtype && this.output) {
+        // Device scenarios switch all function blocks, so relays of multi-relay devices are switched by their output
+        const outputValue = value ? (this.output.attributes?.max ?? 100) : (this.output.attributes?.min ?? 0);
+        await this.platform.dsAPI.setDeviceOutputValue(deviceId, this.device.id, this.output.id, outputValue);
+      } else {
+        await this.platform.dsAPI.invokeScenario({ context: 'applicationDevice', actionId: value ? 'on' : 'off', dsDevice: deviceId });
+      }
+      this.currentState = value as boolean;
+      this.platform.log.info(`${deviceName} → ${value ? 'On' : 'Off'}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set ${deviceName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Gets the current On/Off state of the relay.
+   * Returns the cached value — updates are handled by updateState on apartmentStatusChanged events.
+   */
+  async getOn(): Promise<CharacteristicValue> {
+    return this.currentState;
+  }
+
+  /**
+   * Updates the accessory state from the latest apartment status.
+   * Called by the platform when apartment status changes.
+   * @param apartmentStatus The latest apartment status object.
+   */
+  public async updateState(apartmentStatus: ApartmentStatus): Promise<void> {
+    this.platform.log.debug(`Updating state for ${this.name}`);
+
+    const functionBlockStatus = this.platform.getFunctionBlockStatus(apartmentStatus, this.dsDeviceId, this.device.id);
+    const value = functionBlockStatus?.outputs?.find((o: OutputStatus) => o.id === this.output?.id)?.value;
+
+    // Sometimes output status is not available (i.e. during DSS maintenance tasks)
+    // Only trigger update if new status is available
+    if (typeof value !== 'number' || isNaN(value)) {
+      this.platform.log.debug(`No output status available for ${this.name}`);
+      return;
+    }
+
+    this.currentState = value > 0;
+    this.service.updateCharacteristic(this.platform.Characteristic.On, this.currentState);
+
+    // Without power metering, an outlet is in use while it is switched on
+    if (this.relayType === 'outlet' && !this.metered) {
+      this.inUse = this.currentState;
+      this.service.updateCharacteristic(this.platform.Characteristic.OutletInUse, this.inUse);
+    }
+  }
+
+  /**
+   * Updates the in-use state from the power metering of the device.
+   * Called by the platform on every metering poll.
+   * @param meteringValues The latest metering values.
+   */
+  public async updateMeterings(meteringValues: MeteringValues): Promise<void> {
+    if (this.relayType !== 'outlet') {
+      return;
+    }
+
+    const deviceId = this.dsDeviceId;
+    const consumption = meteringValues.attributes?.values?.find((v) => {
+      const { origin, meteringType } = splitMeteringId(v.id);
+      return origin === deviceId && meteringType === 'consumption';
+    })?.attributes?.value;
+
+    if (typeof consumption !== 'number' || isNaN(consumption)) {
+      return;
+    }
+
+    this.metered = true;
+    this.inUse = consumption > this.IN_USE_THRESHOLD;
+    this.service.updateCharacteristic(this.platform.Characteristic.OutletInUse, this.inUse);
+  }
+}
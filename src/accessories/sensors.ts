@@ -0,0 +1,186 @@
+import type { PlatformAccessory, Service, WithUUID } from 'homebridge';
+import type { DigitalStromPlatform } from '../platform.js';
+import type { AccessoryHandler, ApartmentStatus, FunctionBlock, Sensor, SensorStatus } from '../types/digitalStromTypes.js';
+
+
+/**
+ * Represents a Homebridge accessory for the sensor inputs of a digitalSTROM device.
+ * Creates one HomeKit sensor service per supported sensor input (temperature, humidity, brightness, CO2).
+ */
+export class SensorPlatformAccessory implements AccessoryHandler {
+  /** Sensor services keyed by sensor input id */
+  private services: Map<string, Service> = new Map();
+  /** Sensor inputs keyed by sensor input id */
+  private sensors: Map<string, Sensor> = new Map();
+  /** Cached sensor values keyed by sensor input id */
+  private values: Map<string, number> = new Map();
+
+  /** CO2 level (ppm) above which the CarbonDioxideDetected characteristic reports abnormal levels */
+  private readonly CO2_ABNORMAL_LEVEL = 1000;
+
+  /** Id of the device the function block belongs to */
+  private readonly dsDeviceId: string;
+  /** Service subtype, only set if the device has several function blocks */
+  private readonly subtype?: string;
+  /** Service name */
+  private readonly name: string;
+
+  /**
+   * Constructs a new SensorPlatformAccessory.
+   * @param platform The DigitalStromPlatform instance.
+   * @param accessory The Homebridge PlatformAccessory instance.
+   * @param device The function block handled by this instance.
+   */
+  constructor(
+    private readonly platform: DigitalStromPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly device: FunctionBlock,
+  ) {
+    this.dsDeviceId = this.accessory.context.dsDevice.id;
+    this.subtype = this.platform.getServiceSubtype(this.accessory, this.device);
+    this.name = this.platform.getServiceName(this.accessory, this.device);
+
+    for (const sensor of this.device.attributes?.sensorInputs ?? []) {
+      const serviceType = this.getServiceType(sensor);
+      if (!serviceType) {
+        continue;
+      }
+
+      // Use the sensor input id as subtype, as a device may report several sensors of the same type
+      const subtype = this.getSensorSubtype(sensor.id);
+      const service = this.accessory.getServiceById(serviceType, subtype)
+        || this.accessory.addService(serviceType, sensor.attributes?.name || this.name, subtype);
+      service.setCharacteristic(this.platform.Characteristic.Name, sensor.attributes?.name || this.name);
+
+      this.sensors.set(sensor.id, sensor);
+      this.services.set(sensor.id, service);
+    }
+
+    // Remove sensor services of sensor inputs that no longer exist on the function block
+    const subtypes = [...this.services.keys()].map((id) => this.getSensorSubtype(id));
+    const ownsService = (subtype: string) => !this.subtype || subtype.startsWith(`${this.subtype}-`);
+    for (const service of [...this.accessory.services]) {
+      if (service.subtype && this.isSensorService(service) && ownsService(service.subtype) && !subtypes.includes(service.subtype)) {
+        this.platform.log.debug(`Removing stale sensor service ${service.displayName} from ${this.accessory.displayName}`);
+        this.accessory.removeService(service);
+      }
+    }
+
+    this.platform.log.debug('SensorPlatformAccessory created for:', this.accessory.displayName);
+  }
+
+  /**
+   * Returns the service subtype of a sensor input, prefixed with the function block subtype if the device has several function blocks.
+   * @param sensorId The sensor input id.
+   */
+  private getSensorSubtype(sensorId: string): string {
+    return this.subtype ? `${this.subtype}-${sensorId}` : sensorId;
+  }
+
+  /**
+   * Returns the HomeKit service type for a sensor input.
+   * @param sensor The sensor input.
+   * @returns The service type, or undefined if the measurement type is not supported.
+   */
+  private getServiceType(sensor: Sensor): WithUUID<typeof Service> | undefined {
+    switch (sensor.attributes?.type) {
+    case 'temperature':
+      return this.platform.Service.TemperatureSensor;
+    case 'humidity':
+      return this.platform.Service.HumiditySensor;
+    case 'brightness':
+      return this.platform.Service.LightSensor;
+    case 'carbonDioxide':
+      return this.platform.Service.CarbonDioxideSensor;
+    default:
+      return undefined;
+    }
+  }
+
+  /**
+   * Checks whether a service is one of the sensor service types managed by this handler.
+   * @param service The service to check.
+   */
+  private isSensorService(service: Service): boolean {
+    return [
+      this.platform.Service.TemperatureSensor.UUID,
+      this.platform.Service.HumiditySensor.UUID,
+      this.platform.Service.LightSensor.UUID,
+      this.platform.Service.CarbonDioxideSensor.UUID,
+    ].includes(service.UUID);
+  }
+
+  /**
+   * Applies a sensor value to the matching service characteristics.
+   * @param sensor The sensor input.
+   * @param service The service of the sensor input.
+   * @param value The new sensor value.
+   */
+  private applyValue(sensor: Sensor, service: Service, value: number): void {
+    switch (sensor.attributes?.type) {
+    case 'temperature':
+      service.updateCharacteristic(this.platform.Characteristic.CurrentTemperature, value);
+      break;
+    case 'humidity':
+      service.updateCharacteristic(this.platform.Characteristic.CurrentRelativeHumidity, Math.min(Math.max(value, 0), 100));
+      break;
+    case 'brightness':
+      // HomeKit does not accept 0 lux, the minimum value is 0.0001
+      service.updateCharacteristic(this.platform.Characteristic.CurrentAmbientLightLevel, Math.max(value, 0.0001));
+      break;
+    case 'carbonDioxide':
+      service.updateCharacteristic(this.platform.Characteristic.CarbonDioxideLevel, Math.max(value, 0));
+      service.updateCharacteristic(this.platform.Characteristic.CarbonDioxideDetected, value > this.CO2_ABNORMAL_LEVEL
+        ? this.platform.Characteristic.CarbonDioxideDetected.CO2_LEVELS_ABNORMAL
+        : this.platform.Characteristic.CarbonDioxideDetected.CO2_LEVELS_NORMAL);
+      break;
+    }
+  }
+
+  /**
+   * Updates the accessory state from the latest apartment status.
+   * Called by the platform when apartment status changes.
+   * @param apartmentStatus The latest apartment status object.
+   */
+  public async updateState(apartmentStatus: ApartmentStatus): Promise<void> {
+    this.platform.log.debug(`Updating sensors of ${this.name}`);
+
+    const functionBlockStatus = this.platform.getFunctionBlockStatus(apartmentStatus, this.dsDeviceId, this.device.id);
+
+    // Sometimes sensor status is not available (i.e. during DSS maintenance tasks)
+    // Only trigger update if new status is available
+    if (!functionBlockStatus?.sensorInputs) {
+      this.platform.log.debug(`No sensor status available for ${this.name}`);
+      return;
+    }
+
+    for (const sensorStatus of functionBlockStatus.sensorInputs) {
+      const sensor = this.sensors.get(sensorStatus.id);
+      const service = this.services.get(sensorStatus.id);
+      if (!sensor || !service) {
+        continue;
+      }
+
+      service.updateCharacteristic(this.platform.Characteristic.StatusFault, this.getStatusFault(sensorStatus));
+
+      const value = sensorStatus.value;
+      if (typeof value !== 'number' || isNaN(value) || this.values.get(sensorStatus.id) === value) {
+        continue;
+      }
+
+      this.values.set(sensorStatus.id, value);
+      this.applyValue(sensor, service, value);
+      this.platform.log.debug(`${this.accessory.displayName} → ${sensor.attributes?.type} → ${value}`);
+    }
+  }
+
+  /**
+   * Maps the sensor status to the HomeKit StatusFault value.
+   * @param sensorStatus The sensor status.
+   */
+  private getStatusFault(sensorStatus: SensorStatus): number {
+    return sensorStatus.status === 'error'
+      ? this.platform.Characteristic.StatusFault.GENERAL_FAULT
+      : this.platform.Characteristic.StatusFault.NO_FAULT;
+  }
+}
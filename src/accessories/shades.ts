@@ -1,6 +1,7 @@
 import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
 import type { DigitalStromPlatform } from '../platform.js';
-import type { AccessoryHandler, ApartmentStatus, DeviceStatus, OutputStatus } from '../types/digitalStromTypes.js';
+import type { AccessoryHandler, ApartmentStatus, FunctionBlock, Output, OutputStatus } from '../types/digitalStromTypes.js';
+import { getShadeType, SHADE_TYPE_CONFIG, ShadeTypeConfig } from '../types/deviceTypes.js';
 
 
 /**
@@ -16,28 +17,62 @@ export class ShadePlatformAccessory implements AccessoryHandler {
   private targetPosition = 0;
   /** Cached position state ('ok' or 'moving') */
   private positionState: 'ok' | 'moving' | string = 'ok';
+  /** Covering type configuration (outside, indoor, transparency or awning) */
+  private shadeType: ShadeTypeConfig;
+  /** Id of the output controlling the position */
+  private positionOutputId: string;
+  /** Whether HomeKit positions are inverted to the output values */
+  private inverted = false;
+  /** Whether HomeKit open and closed are swapped by the invertAwnings option */
+  private invertedByOption = false;
+  /** Whether the shade is a member of a cluster with locked operations (e.g. wind protection) */
+  private locked = false;
+  /** Slat angle output, if the shade is a venetian blind */
+  private angleOutput?: Output;
+  /** Cached current slat tilt angle (-90 to 90) */
+  private currentTiltAngle = 0;
+  /** Cached target slat tilt angle (-90 to 90) */
+  private targetTiltAngle = 0;
+
+  /** Id of the device the function block belongs to */
+  private readonly dsDeviceId: string;
+  /** Service subtype, only set if the device has several function blocks */
+  private readonly subtype?: string;
+  /** Service name */
+  private readonly name: string;
 
   /**
    * Constructs a new ShadePlatformAccessory.
    * @param platform The DigitalStromPlatform instance.
    * @param accessory The Homebridge PlatformAccessory instance.
+   * @param device The function block handled by this instance.
    */
   constructor(
     private readonly platform: DigitalStromPlatform,
     private readonly accessory: PlatformAccessory,
+    private readonly device: FunctionBlock,
   ) {
-    // Set accessory information
-    this.accessory.getService(this.platform.Service.AccessoryInformation)!
-      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'DigitalSTROM')
-      .setCharacteristic(this.platform.Characteristic.Model, this.accessory.context.device.attributes?.technicalName || 'Shade')
-      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.context.device.id);
+    this.dsDeviceId = this.accessory.context.dsDevice.id;
+    this.subtype = this.platform.getServiceSubtype(this.accessory, this.device);
+    this.name = this.platform.getServiceName(this.accessory, this.device);
+
+    // Remove services of a previous device type of this function block
+    this.platform.removeStaleDeviceServices(this.accessory, this.platform.Service.WindowCovering, this.subtype);
 
     // Get the WindowCovering service if it exists, otherwise create a new one
-    this.service = this.accessory.getService(this.platform.Service.WindowCovering)
-      || this.accessory.addService(this.platform.Service.WindowCovering);
+    this.service = this.platform.getOrAddService(this.accessory, this.platform.Service.WindowCovering, this.name, this.subtype);
 
     // Set the service name
-    this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName);
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.name);
+
+    // Determine the covering type and its position output
+    const shadeTypeKey = getShadeType(this.device) ?? 'outside';
+    this.shadeType = SHADE_TYPE_CONFIG[shadeTypeKey];
+    this.positionOutputId = this.device.attributes?.outputs?.find(
+      (o: Output) => o.id === this.shadeType.output || o.attributes?.type === this.shadeType.output,
+    )?.id ?? this.shadeType.output;
+    this.invertedByOption = shadeTypeKey === 'awning' && this.platform.config.options?.invertAwnings === true;
+    this.inverted = this.shadeType.invertedOutput !== this.invertedByOption;
 
     // Register handlers for the CurrentPosition Characteristic
     this.service.getCharacteristic(this.platform.Characteristic.CurrentPosition)
@@ -56,6 +91,33 @@ export class ShadePlatformAccessory implements AccessoryHandler {
     this.service.getCharacteristic(this.platform.Characteristic.HoldPosition)
       .onSet(this.holdPosition.bind(this));
 
+    // Register handler for ObstructionDetected, reporting locked cluster operations
+    this.service.getCharacteristic(this.platform.Characteristic.ObstructionDetected)
+      .onGet(() => this.locked);
+
+    // Check if device supports slat tilting (venetian blinds)
+    this.angleOutput = this.device.attributes?.outputs?.find(
+      (o: Output) => o.attributes?.type === 'shadeOpeningAngleOutside' || o.attributes?.type === 'shadeOpeningAngleIndoor',
+    );
+
+    // Register handlers for the tilt angle Characteristics only if supported
+    if (this.angleOutput) {
+      this.service.getCharacteristic(this.platform.Characteristic.CurrentHorizontalTiltAngle)
+        .onGet(this.getCurrentTiltAngle.bind(this));
+      this.service.getCharacteristic(this.platform.Characteristic.TargetHorizontalTiltAngle)
+        .onSet(this.setTargetTiltAngle.bind(this))
+        .onGet(this.getTargetTiltAngle.bind(this));
+    } else {
+      for (const characteristic of [
+        this.platform.Characteristic.CurrentHorizontalTiltAngle,
+        this.platform.Characteristic.TargetHorizontalTiltAngle,
+      ]) {
+        if (this.service.testCharacteristic(characteristic)) {
+          this.service.removeCharacteristic(this.service.getCharacteristic(characteristic));
+        }
+      }
+    }
+
     this.platform.log.debug('ShadePlatformAccessory created for:', this.accessory.displayName);
   }
 
@@ -95,19 +157,24 @@ export class ShadePlatformAccessory implements AccessoryHandler {
    * @param value The new target position (0-100).
    */
   async setTargetPosition(value: CharacteristicValue) {
-    const deviceId: string = this.accessory.context.device.id;
-    const deviceName = this.accessory.context.device.attributes?.name;
+    const deviceId = this.dsDeviceId;
+    const deviceName = this.name;
     const targetPosition = Number(value);
+    this.assertNotLocked();
+
+    // Coverings inverted by the plugin config reach the HomeKit open position with the close action and vice versa
+    const openActionId = this.invertedByOption ? this.shadeType.closeActionId : this.shadeType.openActionId;
+    const closeActionId = this.invertedByOption ? this.shadeType.openActionId : this.shadeType.closeActionId;
 
     try {
       if (targetPosition === 100) {
-        await this.platform.dsAPI.invokeScenario({ context: 'applicationDevice', actionId: 'on', dsDevice: deviceId });
+        await this.platform.dsAPI.invokeScenario({ context: 'applicationDevice', actionId: openActionId, dsDevice: deviceId });
       } else if (targetPosition === 0) {
-        await this.platform.dsAPI.invokeScenario({ context: 'applicationDevice', actionId: 'off', dsDevice: deviceId });
+        await this.platform.dsAPI.invokeScenario({ context: 'applicationDevice', actionId: closeActionId, dsDevice: deviceId });
       } else if (this.currentPosition !== targetPosition) {
         // Set intermediate position if not already there by directly setting the output value,
         // as the on/off scenarios only support fully open/close.
-        await this.platform.dsAPI.setDeviceOutputValue(deviceId, deviceId, 'shadePositionOutside', targetPosition);
+        await this.platform.dsAPI.setDeviceOutputValue(deviceId, this.device.id, this.positionOutputId, this.toPosition(targetPosition));
       } else {
         this.platform.log.debug(`${deviceName} shade already at target position ${targetPosition}, no action taken`);
       }
@@ -142,8 +209,9 @@ export class ShadePlatformAccessory implements AccessoryHandler {
     if (!value) {
       return;
     }
-    const deviceId: string = this.accessory.context.device.id;
-    const deviceName = this.accessory.context.device.attributes?.name;
+    this.assertNotLocked();
+    const deviceId = this.dsDeviceId;
+    const deviceName = this.name;
     try {
       await this.platform.dsAPI.invokeScenario({ context: 'applicationDevice', actionId: 'stop', dsDevice: deviceId });
       this.platform.log.info(`${deviceName} shade stopped`);
@@ -153,35 +221,131 @@ export class ShadePlatformAccessory implements AccessoryHandler {
     }
   }
 
+  /**
+   * Refuses commands while the shade is locked by its cluster.
+   * Without this check, locked shades silently ignore commands.
+   */
+  private assertNotLocked(): void {
+    if (this.locked) {
+      this.platform.log.warn(`${this.name} is locked by its cluster (e.g. wind protection), command refused`);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+    }
+  }
+
+  /**
+   * Converts between output values and HomeKit positions (0-100).
+   * The conversion is symmetric, so it works in both directions.
+   * @param value The output value or HomeKit position.
+   */
+  private toPosition(value: number): number {
+    return this.inverted ? 100 - value : value;
+  }
+
+  /**
+   * Converts a slat angle output value (output min to max) to a HomeKit tilt angle (-90 to 90).
+   * @param value The output value.
+   */
+  private toTiltAngle(value: number): number {
+    const min = this.angleOutput?.attributes?.min ?? 0;
+    const max = this.angleOutput?.attributes?.max ?? 100;
+    if (max <= min) {
+      return 0;
+    }
+    const angle = -90 + ((value - min) / (max - min)) * 180;
+    return Math.round(Math.min(Math.max(angle, -90), 90));
+  }
+
+  /**
+   * Converts a HomeKit tilt angle (-90 to 90) to a slat angle output value (output min to max).
+   * @param angle The tilt angle.
+   */
+  private toOutputValue(angle: number): number {
+    const min = this.angleOutput?.attributes?.min ?? 0;
+    const max = this.angleOutput?.attributes?.max ?? 100;
+    return Math.round(min + ((angle + 90) / 180) * (max - min));
+  }
+
+  /**
+   * Gets the current slat tilt angle of the shade.
+   * @returns The cached current tilt angle (-90 to 90).
+   */
+  async getCurrentTiltAngle(): Promise<CharacteristicValue> {
+    return this.currentTiltAngle;
+  }
+
+  /**
+   * Sets the target slat tilt angle of the shade.
+   * Called by Homebridge when the user changes the tilt angle.
+   * @param value The new target tilt angle (-90 to 90).
+   */
+  async setTargetTiltAngle(value: CharacteristicValue) {
+    const deviceId = this.dsDeviceId;
+    const deviceName = this.name;
+    const targetTiltAngle = Number(value);
+    this.assertNotLocked();
+
+    try {
+      await this.platform.dsAPI.setDeviceOutputValue(deviceId, this.device.id, this.angleOutput!.id, this.toOutputValue(targetTiltAngle));
+      this.targetTiltAngle = targetTiltAngle;
+      this.platform.log.info(`${deviceName} shade tilt angle → ${targetTiltAngle}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set tilt angle for shade ${deviceName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Gets the target slat tilt angle of the shade.
+   * @returns The cached target tilt angle (-90 to 90).
+   */
+  async getTargetTiltAngle(): Promise<CharacteristicValue> {
+    return this.targetTiltAngle;
+  }
+
   /**
    * Updates the accessory state from the latest apartment status.
    * Called by the platform when apartment status changes.
    * @param apartmentStatus The latest apartment status object.
    */
   public async updateState(apartmentStatus: ApartmentStatus): Promise<void> {
-    this.platform.log.debug(`Update status of ${this.accessory.context.device.attributes.name}`);
+    this.platform.log.debug(`Update status of ${this.name}`);
+
+    const functionBlockStatus = this.platform.getFunctionBlockStatus(apartmentStatus, this.dsDeviceId, this.device.id);
 
-    const deviceId = this.accessory.context.device.id;
-    const deviceStatus = apartmentStatus?.included?.dsDevices?.find((d: DeviceStatus) => d.id === deviceId);
+    const locked = this.platform.isDeviceLocked(this.dsDeviceId, apartmentStatus);
+    if (locked !== this.locked) {
+      this.locked = locked;
+      this.service.updateCharacteristic(this.platform.Characteristic.ObstructionDetected, this.locked);
+      this.platform.log.info(`${this.name} ${this.locked ? 'locked' : 'unlocked'} by its cluster`);
+    }
 
     // Sometimes output status is not available (i.e. during DSS maintenance tasks)
     // Only trigger update if new status is available
-    if (!deviceStatus?.attributes?.functionBlocks?.[0]?.outputs) {
-      this.platform.log.debug(`No output status available for ${this.accessory.context.device.attributes?.name}`);
+    if (!functionBlockStatus?.outputs) {
+      this.platform.log.debug(`No output status available for ${this.name}`);
       return;
     }
     
-    const shadePositionOutput = deviceStatus.attributes.functionBlocks[0].outputs.find(
-      (o: OutputStatus) => o.id === 'shadePositionOutside',
+    const outputs = functionBlockStatus.outputs;
+    const shadePositionOutput = outputs.find(
+      (o: OutputStatus) => o.id === this.positionOutputId,
     );
 
+    const angleOutput = this.angleOutput ? outputs.find((o: OutputStatus) => o.id === this.angleOutput!.id) : undefined;
+    if (angleOutput) {
+      this.currentTiltAngle = this.toTiltAngle(angleOutput.status === 'moving' ? (angleOutput.initialValue ?? 0) : (angleOutput.value ?? 0));
+      this.targetTiltAngle = this.toTiltAngle(angleOutput.targetValue ?? 0);
+      this.service.updateCharacteristic(this.platform.Characteristic.CurrentHorizontalTiltAngle, this.currentTiltAngle);
+      this.service.updateCharacteristic(this.platform.Characteristic.TargetHorizontalTiltAngle, this.targetTiltAngle);
+    }
+
     if (shadePositionOutput) {
       const rawStatus = shadePositionOutput.status ?? 'ok';
       const newPositionState = rawStatus === 'moving' ? 'moving' : 'ok';
-      const newCurrentPosition = newPositionState === 'moving'
+      const newCurrentPosition = this.toPosition(newPositionState === 'moving'
         ? Math.round(shadePositionOutput.initialValue ?? 0)
-        : Math.round(shadePositionOutput.value ?? 0);
-      const newTargetPosition = Math.round(shadePositionOutput.targetValue ?? 0);
+        : Math.round(shadePositionOutput.value ?? 0));
+      const newTargetPosition = this.toPosition(Math.round(shadePositionOutput.targetValue ?? 0));
 
       const wasMoving = this.positionState === 'moving';
       const hasReachedIntermediateTarget = wasMoving
@@ -198,9 +362,9 @@ export class ShadePlatformAccessory implements AccessoryHandler {
       // send stop to avoid an empty-click fallback from raw output writes.
       if (hasReachedIntermediateTarget) {
         try {
-          await this.platform.dsAPI.invokeScenario({ context: 'applicationDevice', actionId: 'stop', dsDevice: deviceId });
+          await this.platform.dsAPI.invokeScenario({ context: 'applicationDevice', actionId: 'stop', dsDevice: this.dsDeviceId });
         } catch (error) {
-          this.platform.log.warn(`Failed to send stop command after reaching intermediate target ${newTargetPosition} for shade ${deviceId}:`, error);
+          this.platform.log.warn(`Failed to send stop command after reaching intermediate target ${newTargetPosition} for shade ${this.name}:`, error);
         }
       }
 
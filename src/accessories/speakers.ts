@@ -0,0 +1,266 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import type { DigitalStromPlatform } from '../platform.js';
+import type { AccessoryHandler, ApartmentStatus, FunctionBlock, Output, OutputStatus } from '../types/digitalStromTypes.js';
+
+
+/**
+ * Represents a Homebridge accessory for a digitalSTROM audio device.
+ * Handles power, volume and mute of the device.
+ * The Home app does not show standalone Speaker services, so the device is exposed as television with a speaker.
+ */
+export class SpeakerPlatformAccessory implements AccessoryHandler {
+  /** The Homebridge Television service */
+  private service: Service;
+  /** The Homebridge TelevisionSpeaker service, only available if the device has a volume output */
+  private speakerService?: Service;
+  /** Volume output of the device */
+  private volumeOutput?: Output;
+  /** Power state output of the device, if available */
+  private powerOutput?: Output;
+  /** Cached active state */
+  private active = false;
+  /** Cached volume (0-100) */
+  private volume = 0;
+  /** Volume before muting, restored on unmute */
+  private unmutedVolume = 0;
+
+  /** Volume used on unmute if the volume before muting is unknown */
+  private readonly DEFAULT_VOLUME = 30;
+  /** Volume step of the remote's volume buttons */
+  private readonly VOLUME_STEP = 5;
+
+  /** Id of the device the function block belongs to */
+  private readonly dsDeviceId: string;
+  /** Service subtype, only set if the device has several function blocks */
+  private readonly subtype?: string;
+  /** Service name */
+  private readonly name: string;
+
+  /**
+   * Constructs a new SpeakerPlatformAccessory.
+   * @param platform The DigitalStromPlatform instance.
+   * @param accessory The Homebridge PlatformAccessory instance.
+   * @param device The function block handled by this instance.
+   */
+  constructor(
+    private readonly platform: DigitalStromPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly device: FunctionBlock,
+  ) {
+    this.dsDeviceId = this.accessory.context.dsDevice.id;
+    this.subtype = this.platform.getServiceSubtype(this.accessory, this.device);
+    this.name = this.platform.getServiceName(this.accessory, this.device);
+
+    this.accessory.category = this.platform.api.hap.Categories.TELEVISION;
+
+    // Get the Television service if it exists, otherwise create a new one
+    this.service = this.platform.getOrAddService(this.accessory, this.platform.Service.Television, this.name, this.subtype);
+
+    // Set the service name
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.name);
+    this.service.setCharacteristic(this.platform.Characteristic.ConfiguredName, this.name);
+    this.service.setCharacteristic(this.platform.Characteristic.SleepDiscoveryMode,
+      this.platform.Characteristic.SleepDiscoveryMode.ALWAYS_DISCOVERABLE);
+    // The device has no input sources
+    this.service.setCharacteristic(this.platform.Characteristic.ActiveIdentifier, 0);
+
+    this.volumeOutput = this.device.attributes?.outputs?.find((o: Output) => o.attributes?.type === 'audioVolume');
+    this.powerOutput = this.device.attributes?.outputs?.find((o: Output) => o.attributes?.type === 'powerState');
+
+    this.service.getCharacteristic(this.platform.Characteristic.Active)
+      .onSet(this.setActive.bind(this))
+      .onGet(this.getActive.bind(this));
+
+    // Volume and mute are only available with a volume output
+    const speakerSubtype = this.subtype ? `${this.subtype}-speaker` : undefined;
+    if (this.volumeOutput) {
+      this.speakerService = this.platform.getOrAddService(this.accessory, this.platform.Service.TelevisionSpeaker, this.name, speakerSubtype);
+      this.speakerService
+        .setCharacteristic(this.platform.Characteristic.VolumeControlType, this.platform.Characteristic.VolumeControlType.ABSOLUTE);
+
+      this.speakerService.getCharacteristic(this.platform.Characteristic.Mute)
+        .onSet(this.setMute.bind(this))
+        .onGet(this.getMute.bind(this));
+
+      this.speakerService.getCharacteristic(this.platform.Characteristic.Volume)
+        .onSet(this.setVolume.bind(this))
+        .onGet(this.getVolume.bind(this));
+
+      this.speakerService.getCharacteristic(this.platform.Characteristic.VolumeSelector)
+        .onSet(this.setVolumeSelector.bind(this));
+
+      this.service.addLinkedService(this.speakerService);
+    } else {
+      const cachedSpeakerService = speakerSubtype
+        ? this.accessory.getServiceById(this.platform.Service.TelevisionSpeaker, speakerSubtype)
+        : this.accessory.getService(this.platform.Service.TelevisionSpeaker);
+      if (cachedSpeakerService) {
+        this.accessory.removeService(cachedSpeakerService);
+      }
+    }
+
+    this.platform.log.debug('SpeakerPlatformAccessory created for:', this.accessory.displayName);
+  }
+
+  /**
+   * Converts an output value (output min to max) to a HomeKit volume (0-100).
+   * @param value The output value.
+   */
+  private toVolume(value: number): number {
+    const min = this.volumeOutput?.attributes?.min ?? 0;
+    const max = this.volumeOutput?.attributes?.max ?? 100;
+    return max > min ? Math.round(Math.min(Math.max((value - min) / (max - min) * 100, 0), 100)) : 0;
+  }
+
+  /**
+   * Converts a HomeKit volume (0-100) to an output value (output min to max).
+   * @param volume The volume in percent.
+   */
+  private toOutputValue(volume: number): number {
+    const min = this.volumeOutput?.attributes?.min ?? 0;
+    const max = this.volumeOutput?.attributes?.max ?? 100;
+    return Math.round(min + volume / 100 * (max - min));
+  }
+
+  /**
+   * Writes the volume to the device.
+   * @param volume The volume in percent.
+   */
+  private async writeVolume(volume: number): Promise<void> {
+    if (!this.volumeOutput) {
+      return;
+    }
+    const deviceId = this.dsDeviceId;
+    await this.platform.dsAPI.setDeviceOutputValue(deviceId, this.device.id, this.volumeOutput.id, this.toOutputValue(volume));
+    this.volume = volume;
+  }
+
+  /**
+   * Turns the audio device on or off.
+   * Called by Homebridge when the user toggles the speaker.
+   * @param value The new Active value.
+   */
+  async setActive(value: CharacteristicValue) {
+    const deviceId = this.dsDeviceId;
+    const deviceName = this.name;
+    const active = value === this.platform.Characteristic.Active.ACTIVE;
+
+    try {
+      await this.platform.dsAPI.invokeScenario({ context: 'applicationDevice', actionId: active ? 'on' : 'off', dsDevice: deviceId });
+      this.active = active;
+      this.platform.log.info(`${deviceName} → ${active ? 'On' : 'Off'}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set ${deviceName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Gets the current Active state.
+   * Returns the cached value — updates are handled by updateState on apartmentStatusChanged events.
+   */
+  async getActive(): Promise<CharacteristicValue> {
+    return this.active ? this.platform.Characteristic.Active.ACTIVE : this.platform.Characteristic.Active.INACTIVE;
+  }
+
+  /**
+   * Mutes or unmutes the audio device.
+   * digitalSTROM has no separate mute output, so muting sets the volume to 0 and unmuting restores the previous volume.
+   * @param value True to mute, false to unmute.
+   */
+  async setMute(value: CharacteristicValue) {
+    const deviceName = this.name;
+
+    try {
+      if (value as boolean) {
+        if (this.volume > 0) {
+          this.unmutedVolume = this.volume;
+        }
+        await this.writeVolume(0);
+      } else {
+        await this.writeVolume(this.unmutedVolume || this.DEFAULT_VOLUME);
+      }
+      this.speakerService?.updateCharacteristic(this.platform.Characteristic.Volume, this.volume);
+      this.platform.log.info(`${deviceName} → ${value ? 'Muted' : 'Unmuted'}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set mute for ${deviceName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Gets the current mute state, muted if the volume is 0.
+   */
+  async getMute(): Promise<CharacteristicValue> {
+    return this.volume === 0;
+  }
+
+  /**
+   * Sets the volume of the audio device.
+   * Called by Homebridge when the user changes the volume.
+   * @param value The new volume (0-100).
+   */
+  async setVolume(value: CharacteristicValue) {
+    const deviceName = this.name;
+
+    try {
+      await this.writeVolume(Number(value));
+      this.speakerService?.updateCharacteristic(this.platform.Characteristic.Mute, this.volume === 0);
+      this.platform.log.info(`${deviceName} volume → ${value}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set volume for ${deviceName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Gets the current volume.
+   * Returns the cached value — updates are handled by updateState on apartmentStatusChanged events.
+   */
+  async getVolume(): Promise<CharacteristicValue> {
+    return this.volume;
+  }
+
+  /**
+   * Raises or lowers the volume by one step.
+   * Called by Homebridge when the user presses the volume buttons of the iOS remote.
+   * @param value The VolumeSelector value (INCREMENT or DECREMENT).
+   */
+  async setVolumeSelector(value: CharacteristicValue) {
+    const step = value === this.platform.Characteristic.VolumeSelector.INCREMENT ? this.VOLUME_STEP : -this.VOLUME_STEP;
+    await this.setVolume(Math.min(Math.max(this.volume + step, 0), 100));
+    this.speakerService?.updateCharacteristic(this.platform.Characteristic.Volume, this.volume);
+  }
+
+  /**
+   * Updates the accessory state from the latest apartment status.
+   * Called by the platform when apartment status changes.
+   * @param apartmentStatus The latest apartment status object.
+   */
+  public async updateState(apartmentStatus: ApartmentStatus): Promise<void> {
+    this.platform.log.debug(`Updating state for ${this.name}`);
+
+    const functionBlockStatus = this.platform.getFunctionBlockStatus(apartmentStatus, this.dsDeviceId, this.device.id);
+
+    // Sometimes output status is not available (i.e. during DSS maintenance tasks)
+    // Only trigger update if new status is available
+    if (!functionBlockStatus?.outputs) {
+      this.platform.log.debug(`No output status available for ${this.name}`);
+      return;
+    }
+
+    const outputs = functionBlockStatus.outputs;
+    const volume = outputs.find((o: OutputStatus) => o.id === this.volumeOutput?.id)?.value;
+    const powerState = outputs.find((o: OutputStatus) => o.id === this.powerOutput?.id)?.value;
+
+    if (typeof volume === 'number' && !isNaN(volume)) {
+      this.volume = this.toVolume(volume);
+      this.speakerService?.updateCharacteristic(this.platform.Characteristic.Volume, this.volume);
+      this.speakerService?.updateCharacteristic(this.platform.Characteristic.Mute, this.volume === 0);
+    }
+
+    // Devices without power state output are active while playing at a volume above 0
+    this.active = (typeof powerState === 'number' && !isNaN(powerState)) ? powerState > 0 : this.volume > 0;
+    this.service.updateCharacteristic(this.platform.Characteristic.Active, await this.getActive());
+  }
+}
@@ -0,0 +1,232 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import type { DigitalStromPlatform } from '../platform.js';
+import type { AccessoryHandler, ApartmentStatus, FunctionBlock, Output, OutputStatus } from '../types/digitalStromTypes.js';
+
+
+/**
+ * Represents a Homebridge accessory for a digitalSTROM video device.
+ * Handles power and the selection of input sources and stations.
+ */
+export class TelevisionPlatformAccessory implements AccessoryHandler {
+  /** The Homebridge Television service */
+  private service: Service;
+  /** Power state output of the device, if available */
+  private powerOutput?: Output;
+  /** Input source and station values, keyed by HomeKit input identifier */
+  private inputs: Map<number, { output: Output; value: number }> = new Map();
+  /** Cached active state */
+  private active = false;
+  /** Cached active input identifier */
+  private activeIdentifier = 0;
+
+  /** Maximum number of input sources and of stations exposed to HomeKit */
+  private readonly MAX_INPUTS = 10;
+  /** Identifier offset of stations, keeping them apart from input sources */
+  private readonly STATION_IDENTIFIER_OFFSET = 100;
+
+  /** Id of the device the function block belongs to */
+  private readonly dsDeviceId: string;
+  /** Service subtype, only set if the device has several function blocks */
+  private readonly subtype?: string;
+  /** Service name */
+  private readonly name: string;
+
+  /**
+   * Constructs a new TelevisionPlatformAccessory.
+   * @param platform The DigitalStromPlatform instance.
+   * @param accessory The Homebridge PlatformAccessory instance.
+   * @param device The function block handled by this instance.
+   */
+  constructor(
+    private readonly platform: DigitalStromPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly device: FunctionBlock,
+  ) {
+    this.dsDeviceId = this.accessory.context.dsDevice.id;
+    this.subtype = this.platform.getServiceSubtype(this.accessory, this.device);
+    this.name = this.platform.getServiceName(this.accessory, this.device);
+
+    this.accessory.category = this.platform.api.hap.Categories.TELEVISION;
+
+    // Get the Television service if it exists, otherwise create a new one
+    this.service = this.platform.getOrAddService(this.accessory, this.platform.Service.Television, this.name, this.subtype);
+
+    // Set the service name
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.name);
+    this.service.setCharacteristic(this.platform.Characteristic.ConfiguredName, this.name);
+    this.service.setCharacteristic(this.platform.Characteristic.SleepDiscoveryMode,
+      this.platform.Characteristic.SleepDiscoveryMode.ALWAYS_DISCOVERABLE);
+
+    this.powerOutput = this.device.attributes?.outputs?.find((o: Output) => o.attributes?.type === 'powerState');
+
+    this.service.getCharacteristic(this.platform.Characteristic.Active)
+      .onSet(this.setActive.bind(this))
+      .onGet(this.getActive.bind(this));
+
+    this.service.getCharacteristic(this.platform.Characteristic.ActiveIdentifier)
+      .onSet(this.setActiveIdentifier.bind(this))
+      .onGet(this.getActiveIdentifier.bind(this));
+
+    // Each input source and station is exposed as InputSource service
+    const inputSourceOutput = this.device.attributes?.outputs?.find((o: Output) => o.attributes?.type === 'videoInputSource');
+    const stationOutput = this.device.attributes?.outputs?.find((o: Output) => o.attributes?.type === 'videoStation');
+    const validSubtypes = [
+      ...this.registerInputs(inputSourceOutput, 0, 'Input', this.platform.Characteristic.InputSourceType.HDMI),
+      ...this.registerInputs(stationOutput, this.STATION_IDENTIFIER_OFFSET, 'Station', this.platform.Characteristic.InputSourceType.TUNER),
+    ];
+
+    // Remove input sources of this function block which no longer exist
+    const ownsService = (subtype: string) => !this.subtype || subtype.startsWith(`${this.subtype}-`);
+    for (const service of [...this.accessory.services]) {
+      if (service.UUID === this.platform.Service.InputSource.UUID && ownsService(service.subtype ?? '')
+        && !validSubtypes.includes(service.subtype ?? '')) {
+        this.accessory.removeService(service);
+      }
+    }
+
+    this.activeIdentifier = this.inputs.keys().next().value ?? 0;
+
+    this.platform.log.debug('TelevisionPlatformAccessory created for:', this.accessory.displayName);
+  }
+
+  /**
+   * Adds one InputSource service per value of an output.
+   * @param output The videoInputSource or videoStation output.
+   * @param identifierOffset Offset of the HomeKit input identifiers.
+   * @param label Label of the input source names.
+   * @param inputSourceType The HomeKit input source type.
+   * @returns The subtypes of the registered InputSource services.
+   */
+  private registerInputs(output: Output | undefined, identifierOffset: number, label: string, inputSourceType: number): string[] {
+    if (!output) {
+      return [];
+    }
+
+    const min = output.attributes?.min ?? 1;
+    const max = Math.min(output.attributes?.max ?? min + this.MAX_INPUTS - 1, min + this.MAX_INPUTS - 1);
+    const subtypes: string[] = [];
+
+    for (let value = min; value <= max; value++) {
+      const identifier = identifierOffset + value - min + 1;
+      const subtype = this.subtype ? `${this.subtype}-${output.id}-${value}` : `${output.id}-${value}`;
+      const name = `${label} ${value}`;
+
+      const inputService = this.accessory.getServiceById(this.platform.Service.InputSource, subtype)
+        || this.accessory.addService(this.platform.Service.InputSource, name, subtype);
+
+      inputService
+        .setCharacteristic(this.platform.Characteristic.Name, name)
+        .setCharacteristic(this.platform.Characteristic.ConfiguredName, name)
+        .setCharacteristic(this.platform.Characteristic.Identifier, identifier)
+        .setCharacteristic(this.platform.Characteristic.InputSourceType, inputSourceType)
+        .setCharacteristic(this.platform.Characteristic.IsConfigured, this.platform.Characteristic.IsConfigured.CONFIGURED)
+        .setCharacteristic(this.platform.Characteristic.CurrentVisibilityState, this.platform.Characteristic.CurrentVisibilityState.SHOWN);
+
+      this.service.addLinkedService(inputService);
+      this.inputs.set(identifier, { output, value });
+      subtypes.push(subtype);
+    }
+
+    return subtypes;
+  }
+
+  /**
+   * Turns the video device on or off.
+   * Called by Homebridge when the user toggles the television.
+   * @param value The new Active value.
+   */
+  async setActive(value: CharacteristicValue) {
+    const deviceId = this.dsDeviceId;
+    const deviceName = this.name;
+    const active = value === this.platform.Characteristic.Active.ACTIVE;
+
+    try {
+      await this.platform.dsAPI.invokeScenario({ context: 'applicationDevice', actionId: active ? 'on' : 'off', dsDevice: deviceId });
+      this.active = active;
+      this.platform.log.info(`${deviceName} → ${active ? 'On' : 'Off'}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set ${deviceName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Gets the current Active state.
+   * Returns the cached value — updates are handled by updateState on apartmentStatusChanged events.
+   */
+  async getActive(): Promise<CharacteristicValue> {
+    return this.active ? this.platform.Characteristic.Active.ACTIVE : this.platform.Characteristic.Active.INACTIVE;
+  }
+
+  /**
+   * Selects an input source or station.
+   * Called by Homebridge when the user selects an input.
+   * @param value The identifier of the selected input.
+   */
+  async setActiveIdentifier(value: CharacteristicValue) {
+    const deviceId = this.dsDeviceId;
+    const deviceName = this.name;
+    const input = this.inputs.get(Number(value));
+
+    if (!input) {
+      this.platform.log.warn(`${deviceName}: unknown input ${value}`);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.INVALID_VALUE_IN_REQUEST);
+    }
+
+    try {
+      await this.platform.dsAPI.setDeviceOutputValue(deviceId, this.device.id, input.output.id, input.value);
+      this.activeIdentifier = Number(value);
+      this.platform.log.info(`${deviceName} ${input.output.attributes?.type} → ${input.value}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set input for ${deviceName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Gets the identifier of the active input.
+   * Returns the cached value — updates are handled by updateState on apartmentStatusChanged events.
+   */
+  async getActiveIdentifier(): Promise<CharacteristicValue> {
+    return this.activeIdentifier;
+  }
+
+  /**
+   * Updates the accessory state from the latest apartment status.
+   * Called by the platform when apartment status changes.
+   * @param apartmentStatus The latest apartment status object.
+   */
+  public async updateState(apartmentStatus: ApartmentStatus): Promise<void> {
+    this.platform.log.debug(`Updating state for ${this.name}`);
+
+    const functionBlockStatus = this.platform.getFunctionBlockStatus(apartmentStatus, this.dsDeviceId, this.device.id);
+
+    // Sometimes output status is not available (i.e. during DSS maintenance tasks)
+    // Only trigger update if new status is available
+    if (!functionBlockStatus?.outputs) {
+      this.platform.log.debug(`No output status available for ${this.name}`);
+      return;
+    }
+
+    const outputs = functionBlockStatus.outputs;
+    const powerState = outputs.find((o: OutputStatus) => o.id === this.powerOutput?.id)?.value;
+
+    if (typeof powerState === 'number' && !isNaN(powerState)) {
+      this.active = powerState > 0;
+      this.service.updateCharacteristic(this.platform.Characteristic.Active, await this.getActive());
+    }
+
+    // The active identifier follows the videoInputSource output
+    for (const [identifier, input] of this.inputs) {
+      if (input.output.attributes?.type !== 'videoInputSource') {
+        continue;
+      }
+      const value = outputs.find((o: OutputStatus) => o.id === input.output.id)?.value;
+      if (value === input.value && identifier !== this.activeIdentifier) {
+        this.activeIdentifier = identifier;
+        this.service.updateCharacteristic(this.platform.Characteristic.ActiveIdentifier, this.activeIdentifier);
+        break;
+      }
+    }
+  }
+}
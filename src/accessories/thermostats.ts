@@ -0,0 +1,225 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import type { DigitalStromPlatform } from '../platform.js';
+import type { AccessoryHandler, ApartmentStatus, ZoneStatus } from '../types/digitalStromTypes.js';
+
+
+/**
+ * Represents a Homebridge thermostat accessory for the climate control of a digitalSTROM zone.
+ * Handles current temperature, temperature setpoint and heating/cooling state.
+ */
+export class ThermostatPlatformAccessory implements AccessoryHandler {
+  /** The Homebridge Thermostat service */
+  private service: Service;
+  /** Cached current temperature */
+  private currentTemperature = 20;
+  /** Cached temperature setpoint */
+  private targetTemperature = 20;
+  /** Cached control value (0-100), used to determine whether the zone is actively heating/cooling */
+  private controlValue = 0;
+  /** Cached zone control mode */
+  private controlMode = 'off';
+  /** Cached zone operation mode */
+  private operationMode = 'heating';
+  /** Temperature display units (only used by the Home app) */
+  private displayUnits = 0;
+
+  private readonly MIN_SETPOINT = 5;
+  private readonly MAX_SETPOINT = 30;
+
+  /**
+   * Constructs a new ThermostatPlatformAccessory.
+   * @param platform The DigitalStromPlatform instance.
+   * @param accessory The Homebridge PlatformAccessory instance.
+   */
+  constructor(
+    private readonly platform: DigitalStromPlatform,
+    private readonly accessory: PlatformAccessory,
+  ) {
+    // Set accessory information
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'DigitalSTROM')
+      .setCharacteristic(this.platform.Characteristic.Model, 'ZoneClimate')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.context.zone.id);
+
+    this.displayUnits = this.platform.Characteristic.TemperatureDisplayUnits.CELSIUS;
+
+    // Get the Thermostat service if it exists, otherwise create a new one
+    this.service = this.accessory.getService(this.platform.Service.Thermostat)
+      || this.accessory.addService(this.platform.Service.Thermostat);
+
+    // Set the service name
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName);
+
+    this.service.getCharacteristic(this.platform.Characteristic.CurrentTemperature)
+      .onGet(this.getCurrentTemperature.bind(this));
+
+    this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature)
+      .setProps({ minValue: this.MIN_SETPOINT, maxValue: this.MAX_SETPOINT, minStep: 0.5 })
+      .onSet(this.setTargetTemperature.bind(this))
+      .onGet(this.getTargetTemperature.bind(this));
+
+    this.service.getCharacteristic(this.platform.Characteristic.CurrentHeatingCoolingState)
+      .onGet(this.getCurrentHeatingCoolingState.bind(this));
+
+    this.updateValidTargetStates();
+    this.service.getCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState)
+      .onSet(this.setTargetHeatingCoolingState.bind(this))
+      .onGet(this.getTargetHeatingCoolingState.bind(this));
+
+    this.service.getCharacteristic(this.platform.Characteristic.TemperatureDisplayUnits)
+      .onSet((value: CharacteristicValue) => {
+        this.displayUnits = value as number;
+      })
+      .onGet(() => this.displayUnits);
+
+    this.platform.log.debug('ThermostatPlatformAccessory created for:', this.accessory.displayName);
+  }
+
+  /**
+   * Gets the current temperature of the zone.
+   * Returns the cached value — updates are handled by updateState on apartmentStatusChanged events.
+   */
+  async getCurrentTemperature(): Promise<CharacteristicValue> {
+    return this.currentTemperature;
+  }
+
+  /**
+   * Sets the temperature setpoint of the zone.
+   * Called by Homebridge when the user changes the target temperature.
+   * @param value The new setpoint in °C.
+   */
+  async setTargetTemperature(value: CharacteristicValue) {
+    const zoneId = this.accessory.context.zone.id as string;
+    const setpoint = Number(value);
+
+    try {
+      await this.platform.dsAPI.setZoneStatusValue(zoneId, 'sensors/temperatureSetpoint/value', setpoint);
+      this.targetTemperature = setpoint;
+      this.platform.log.info(`${this.accessory.displayName} setpoint → ${setpoint} °C`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set setpoint for ${this.accessory.displayName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Gets the temperature setpoint of the zone.
+   * Returns the cached value — updates are handled by updateState on apartmentStatusChanged events.
+   */
+  async getTargetTemperature(): Promise<CharacteristicValue> {
+    return this.targetTemperature;
+  }
+
+  /**
+   * Gets the current heating/cooling state.
+   * The zone is only reported as heating (or cooling) while its control value is above zero.
+   */
+  async getCurrentHeatingCoolingState(): Promise<CharacteristicValue> {
+    const state = this.platform.Characteristic.CurrentHeatingCoolingState;
+    if (this.controlMode === 'off' || this.controlValue <= 0) {
+      return state.OFF;
+    }
+    return this.operationMode === 'cooling' ? state.COOL : state.HEAT;
+  }
+
+  /**
+   * Gets the target heating/cooling state supported by the zone's operation mode.
+   * The dSS decides whether a zone heats or cools, so HomeKit can only select this mode or OFF.
+   */
+  private getOperationTargetState(): number {
+    const state = this.platform.Characteristic.TargetHeatingCoolingState;
+    return this.operationMode === 'cooling' ? state.COOL : state.HEAT;
+  }
+
+  /**
+   * Restricts the valid target heating/cooling states to OFF and the mode of the zone's operation mode.
+   */
+  private updateValidTargetStates(): void {
+    this.service.getCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState)
+      .setProps({
+        validValues: [this.platform.Characteristic.TargetHeatingCoolingState.OFF, this.getOperationTargetState()],
+      });
+  }
+
+  /**
+   * Sets the target heating/cooling state.
+   * OFF switches the zone's control mode off, the mode of the zone's operation mode switches it back to regulated (pid) control.
+   * @param value The new TargetHeatingCoolingState.
+   */
+  async setTargetHeatingCoolingState(value: CharacteristicValue) {
+    const zoneId = this.accessory.context.zone.id as string;
+    let controlMode: string;
+    if (value === this.platform.Characteristic.TargetHeatingCoolingState.OFF) {
+      controlMode = 'off';
+    } else if (value === this.getOperationTargetState()) {
+      controlMode = 'pid';
+    } else {
+      this.platform.log.warn(`${this.accessory.displayName} does not support this mode while the zone is in ${this.operationMode} operation`);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.INVALID_VALUE_IN_REQUEST);
+    }
+
+    try {
+      await this.platform.dsAPI.setZoneStatusValue(zoneId, 'climate/controlMode', controlMode);
+      this.controlMode = controlMode;
+      this.platform.log.info(`${this.accessory.displayName} control mode → ${controlMode}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set control mode for ${this.accessory.displayName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Gets the target heating/cooling state mapped from the zone's control and operation mode.
+   */
+  async getTargetHeatingCoolingState(): Promise<CharacteristicValue> {
+    const state = this.platform.Characteristic.TargetHeatingCoolingState;
+    if (this.controlMode === 'off') {
+      return state.OFF;
+    }
+    return this.getOperationTargetState();
+  }
+
+  /**
+   * Updates the accessory state from the latest apartment status.
+   * Called by the platform when apartment status changes.
+   * @param apartmentStatus The latest apartment status object.
+   */
+  public async updateState(apartmentStatus: ApartmentStatus): Promise<void> {
+    const zoneId = this.accessory.context.zone.id as string;
+    const zoneStatus = apartmentStatus?.included?.zones?.find((z: ZoneStatus) => z.id === zoneId);
+
+    if (!zoneStatus?.attributes) {
+      this.platform.log.debug(`No zone status available for ${this.accessory.displayName}`);
+      return;
+    }
+
+    const sensors = zoneStatus.attributes.sensors ?? [];
+    const temperature = sensors.find((s) => s.id === 'temperature')?.value;
+    const setpoint = sensors.find((s) => s.id === 'temperatureSetpoint')?.value;
+    const controlValue = sensors.find((s) => s.id === 'temperatureControlValue')?.value;
+
+    if (typeof temperature === 'number' && !isNaN(temperature)) {
+      this.currentTemperature = temperature;
+      this.service.updateCharacteristic(this.platform.Characteristic.CurrentTemperature, this.currentTemperature);
+    }
+
+    if (typeof setpoint === 'number' && !isNaN(setpoint)) {
+      this.targetTemperature = Math.min(Math.max(setpoint, this.MIN_SETPOINT), this.MAX_SETPOINT);
+      this.service.updateCharacteristic(this.platform.Characteristic.TargetTemperature, this.targetTemperature);
+    }
+
+    if (typeof controlValue === 'number' && !isNaN(controlValue)) {
+      this.controlValue = controlValue;
+    }
+
+    this.controlMode = zoneStatus.attributes.climate?.controlMode ?? this.controlMode;
+    const operationMode = zoneStatus.attributes.climate?.operationMode ?? this.operationMode;
+    if (operationMode !== this.operationMode) {
+      this.operationMode = operationMode;
+      this.updateValidTargetStates();
+    }
+
+    this.service.updateCharacteristic(this.platform.Characteristic.CurrentHeatingCoolingState, await this.getCurrentHeatingCoolingState());
+    this.service.updateCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState, await this.getTargetHeatingCoolingState());
+  }
+}
@@ -0,0 +1,146 @@
+import type { PlatformAccessory, Service } from 'homebridge';
+import type { DigitalStromPlatform } from '../platform.js';
+import type { AccessoryHandler, ApartmentStatus, UserDefinedStateStatus, UserDefinedStateType } from '../types/digitalStromTypes.js';
+
+
+/**
+ * Represents a Homebridge accessory for a user-defined state of the dSS.
+ * Exposed as ContactSensor, OccupancySensor or read-only Switch, depending on the plugin config.
+ */
+export class UserDefinedStatePlatformAccessory implements AccessoryHandler {
+  /** The Homebridge ContactSensor, OccupancySensor or Switch service */
+  private service: Service;
+  /** Configured service type */
+  private stateType: UserDefinedStateType;
+  /** Cached state, true if the user-defined state is active */
+  private active = false;
+  /** Whether the dSS reported a defined (active/inactive) state */
+  private defined = false;
+
+  /**
+   * Constructs a new UserDefinedStatePlatformAccessory.
+   * @param platform The DigitalStromPlatform instance.
+   * @param accessory The Homebridge PlatformAccessory instance.
+   */
+  constructor(
+    private readonly platform: DigitalStromPlatform,
+    private readonly accessory: PlatformAccessory,
+  ) {
+    // Set accessory information
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'DigitalSTROM')
+      .setCharacteristic(this.platform.Characteristic.Model, 'UserDefinedState')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.context.userDefinedState.id);
+
+    this.stateType = this.accessory.context.stateType ?? 'contact';
+    const serviceType = this.getServiceType(this.stateType);
+
+    // Remove services of a previously configured type
+    for (const type of ['contact', 'occupancy', 'switch'] as UserDefinedStateType[]) {
+      const service = this.accessory.getService(this.getServiceType(type));
+      if (type !== this.stateType && service) {
+        this.accessory.removeService(service);
+      }
+    }
+
+    this.service = this.accessory.getService(serviceType) || this.accessory.addService(serviceType, this.accessory.displayName);
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName);
+
+    switch (this.stateType) {
+    case 'occupancy':
+      this.service.getCharacteristic(this.platform.Characteristic.OccupancyDetected)
+        .onGet(() => this.getOccupancyDetected());
+      this.service.getCharacteristic(this.platform.Characteristic.StatusActive)
+        .onGet(() => this.defined);
+      break;
+    case 'switch':
+      // The state is controlled by the dSS logic, so the switch is read-only
+      this.service.getCharacteristic(this.platform.Characteristic.On)
+        .setProps({ perms: [this.platform.api.hap.Perms.PAIRED_READ, this.platform.api.hap.Perms.NOTIFY] })
+        .onGet(() => this.active);
+      break;
+    default:
+      this.service.getCharacteristic(this.platform.Characteristic.ContactSensorState)
+        .onGet(() => this.getContactSensorState());
+      this.service.getCharacteristic(this.platform.Characteristic.StatusActive)
+        .onGet(() => this.defined);
+      break;
+    }
+
+    this.platform.log.debug('UserDefinedStatePlatformAccessory created for:', this.accessory.displayName);
+  }
+
+  /**
+   * Returns the HomeKit service type for a configured state type.
+   * @param stateType The configured state type.
+   */
+  private getServiceType(stateType: UserDefinedStateType):
+    typeof Service.ContactSensor | typeof Service.OccupancySensor | typeof Service.Switch {
+    switch (stateType) {
+    case 'occupancy':
+      return this.platform.Service.OccupancySensor;
+    case 'switch':
+      return this.platform.Service.Switch;
+    default:
+      return this.platform.Service.ContactSensor;
+    }
+  }
+
+  /**
+   * An active state is reported as open contact (e.g. "window open in bedroom").
+   */
+  private getContactSensorState(): number {
+    return this.active
+      ? this.platform.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
+      : this.platform.Characteristic.ContactSensorState.CONTACT_DETECTED;
+  }
+
+  /**
+   * An active state is reported as occupancy detected.
+   */
+  private getOccupancyDetected(): number {
+    return this.active
+      ? this.platform.Characteristic.OccupancyDetected.OCCUPANCY_DETECTED
+      : this.platform.Characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED;
+  }
+
+  /**
+   * Updates the accessory state from the latest apartment status.
+   * Called by the platform when apartment status changes.
+   * @param apartmentStatus The latest apartment status object.
+   */
+  public async updateState(apartmentStatus: ApartmentStatus): Promise<void> {
+    const stateId = this.accessory.context.userDefinedState.id as string;
+    const stateStatus = apartmentStatus?.included?.userDefinedStates?.find((u: UserDefinedStateStatus) => u.id === stateId);
+    const status = stateStatus?.attributes?.status;
+
+    if (!status) {
+      this.platform.log.debug(`No status available for ${this.accessory.displayName}`);
+      return;
+    }
+
+    const active = status === 'active';
+    const defined = status === 'active' || status === 'inactive';
+    if (active === this.active && defined === this.defined) {
+      return;
+    }
+
+    this.active = active;
+    this.defined = defined;
+
+    switch (this.stateType) {
+    case 'occupancy':
+      this.service.updateCharacteristic(this.platform.Characteristic.OccupancyDetected, this.getOccupancyDetected());
+      this.service.updateCharacteristic(this.platform.Characteristic.StatusActive, this.defined);
+      break;
+    case 'switch':
+      this.service.updateCharacteristic(this.platform.Characteristic.On, this.active);
+      break;
+    default:
+      this.service.updateCharacteristic(this.platform.Characteristic.ContactSensorState, this.getContactSensorState());
+      this.service.updateCharacteristic(this.platform.Characteristic.StatusActive, this.defined);
+      break;
+    }
+    this.platform.log.debug(`${this.accessory.displayName} → ${status}`);
+  }
+}
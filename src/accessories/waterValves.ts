@@ -0,0 +1,190 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import type { DigitalStromPlatform } from '../platform.js';
+import type { AccessoryHandler, ApartmentStatus, FunctionBlock, Output, OutputStatus } from '../types/digitalStromTypes.js';
+
+
+/**
+ * Represents a Homebridge accessory for a digitalSTROM water output (e.g. irrigation or shower).
+ * Exposed as Valve, in use while water flows, with a run duration handled by the plugin.
+ */
+export class WaterValvePlatformAccessory implements AccessoryHandler {
+  /** The Homebridge Valve service */
+  private service: Service;
+  /** Flow rate output of the device */
+  private flowRateOutput?: Output;
+  /** Cached active state */
+  private active = false;
+  /** Cached in-use state, true while water flows */
+  private inUse = false;
+  /** Timer sending the off scenario when the run duration has passed */
+  private durationTimer: NodeJS.Timeout | null = null;
+  /** Time (ms) at which the running duration ends */
+  private durationEnd = 0;
+
+  /** Maximum run duration in seconds, as defined by HAP */
+  private readonly MAX_DURATION = 3600;
+
+  /** Id of the device the function block belongs to */
+  private readonly dsDeviceId: string;
+  /** Service subtype, only set if the device has several function blocks */
+  private readonly subtype?: string;
+  /** Service name */
+  private readonly name: string;
+
+  /**
+   * Constructs a new WaterValvePlatformAccessory.
+   * @param platform The DigitalStromPlatform instance.
+   * @param accessory The Homebridge PlatformAccessory instance.
+   * @param device The function block handled by this instance.
+   */
+  constructor(
+    private readonly platform: DigitalStromPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly device: FunctionBlock,
+  ) {
+    this.dsDeviceId = this.accessory.context.dsDevice.id;
+    this.subtype = this.platform.getServiceSubtype(this.accessory, this.device);
+    this.name = this.platform.getServiceName(this.accessory, this.device);
+
+    // Remove services of a previous device type of this function block
+    this.platform.removeStaleDeviceServices(this.accessory, this.platform.Service.Valve, this.subtype);
+
+    // Get the Valve service if it exists, otherwise create a new one
+    this.service = this.platform.getOrAddService(this.accessory, this.platform.Service.Valve, this.name, this.subtype);
+
+    // Set the service name
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.name);
+
+    this.flowRateOutput = this.device.attributes?.outputs?.find((o: Output) => o.attributes?.type === 'waterFlowRate');
+
+    // Outputs with water temperature are showers, others irrigation
+    const hasTemperature = !!this.device.attributes?.outputs?.find((o: Output) => o.attributes?.type === 'waterTemperature');
+    this.service.setCharacteristic(this.platform.Characteristic.ValveType, hasTemperature
+      ? this.platform.Characteristic.ValveType.SHOWER_HEAD
+      : this.platform.Characteristic.ValveType.IRRIGATION);
+
+    this.service.getCharacteristic(this.platform.Characteristic.Active)
+      .onSet(this.setActive.bind(this))
+      .onGet(() => this.active ? this.platform.Characteristic.Active.ACTIVE : this.platform.Characteristic.Active.INACTIVE);
+
+    this.service.getCharacteristic(this.platform.Characteristic.InUse)
+      .onGet(() => this.inUse ? this.platform.Characteristic.InUse.IN_USE : this.platform.Characteristic.InUse.NOT_IN_USE);
+
+    // The run duration is persisted in the accessory context, per function block as each valve has its own duration
+    if (typeof this.accessory.context.setDuration === 'number') {
+      this.accessory.context.setDurations = { [this.device.id]: this.accessory.context.setDuration };
+      delete this.accessory.context.setDuration;
+    }
+    this.accessory.context.setDurations ??= {};
+    this.service.getCharacteristic(this.platform.Characteristic.SetDuration)
+      .setProps({ maxValue: this.MAX_DURATION })
+      .onSet((value: CharacteristicValue) => {
+        this.accessory.context.setDurations[this.device.id] = Number(value);
+      })
+      .onGet(() => this.accessory.context.setDurations[this.device.id] ?? 0);
+
+    this.service.getCharacteristic(this.platform.Characteristic.RemainingDuration)
+      .setProps({ maxValue: this.MAX_DURATION })
+      .onGet(() => this.getRemainingDuration());
+
+    this.platform.log.debug('WaterValvePlatformAccessory created for:', this.accessory.displayName);
+  }
+
+  /**
+   * Gets the remaining run duration in seconds, 0 if no duration is running.
+   */
+  private getRemainingDuration(): number {
+    return this.durationTimer ? Math.max(Math.round((this.durationEnd - Date.now()) / 1000), 0) : 0;
+  }
+
+  /**
+   * Clears a running duration timer.
+   */
+  private clearDurationTimer(): void {
+    if (this.durationTimer) {
+      clearTimeout(this.durationTimer);
+      this.durationTimer = null;
+    }
+  }
+
+  /**
+   * Opens or closes the water output.
+   * When opened with a set duration, the off scenario is sent once the duration has passed.
+   * @param value The new Active value.
+   */
+  async setActive(value: CharacteristicValue) {
+    const deviceId = this.dsDeviceId;
+    const deviceName = this.name;
+    const active = value === this.platform.Characteristic.Active.ACTIVE;
+
+    try {
+      await this.platform.dsAPI.invokeScenario({ context: 'applicationDevice', actionId: active ? 'on' : 'off', dsDevice: deviceId });
+      this.active = active;
+      this.platform.log.info(`${deviceName} → ${active ? 'On' : 'Off'}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set ${deviceName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+
+    this.clearDurationTimer();
+    const duration = Number(this.accessory.context.setDurations[this.device.id] ?? 0);
+    if (active && duration > 0) {
+      this.durationEnd = Date.now() + duration * 1000;
+      this.durationTimer = setTimeout(() => this.endDuration(), duration * 1000);
+    }
+    this.service.updateCharacteristic(this.platform.Characteristic.RemainingDuration, this.getRemainingDuration());
+  }
+
+  /**
+   * Sends the off scenario when the run duration has passed.
+   */
+  private async endDuration(): Promise<void> {
+    const deviceId = this.dsDeviceId;
+    const deviceName = this.name;
+    this.durationTimer = null;
+
+    try {
+      await this.platform.dsAPI.invokeScenario({ context: 'applicationDevice', actionId: 'off', dsDevice: deviceId });
+      this.active = false;
+      this.service.updateCharacteristic(this.platform.Characteristic.Active, this.platform.Characteristic.Active.INACTIVE);
+      this.service.updateCharacteristic(this.platform.Characteristic.RemainingDuration, 0);
+      this.platform.log.info(`${deviceName} → Off (duration ended)`);
+    } catch (error) {
+      this.platform.log.error(`Failed to turn off ${deviceName} after duration:`, error);
+    }
+  }
+
+  /**
+   * Updates the accessory state from the latest apartment status.
+   * Called by the platform when apartment status changes.
+   * @param apartmentStatus The latest apartment status object.
+   */
+  public async updateState(apartmentStatus: ApartmentStatus): Promise<void> {
+    this.platform.log.debug(`Updating state for ${this.name}`);
+
+    const functionBlockStatus = this.platform.getFunctionBlockStatus(apartmentStatus, this.dsDeviceId, this.device.id);
+    const flowRate = functionBlockStatus?.outputs?.find((o: OutputStatus) => o.id === this.flowRateOutput?.id);
+
+    // Sometimes output status is not available (i.e. during DSS maintenance tasks)
+    // Only trigger update if new status is available
+    if (!flowRate || typeof flowRate.value !== 'number' || isNaN(flowRate.value)) {
+      this.platform.log.debug(`No output status available for ${this.name}`);
+      return;
+    }
+
+    // Active follows the requested flow, in use the actual flow
+    this.active = (flowRate.targetValue ?? flowRate.value) > 0;
+    this.inUse = flowRate.value > 0;
+
+    // A duration ends early if the water is turned off elsewhere
+    if (!this.active) {
+      this.clearDurationTimer();
+      this.service.updateCharacteristic(this.platform.Characteristic.RemainingDuration, 0);
+    }
+
+    this.service.updateCharacteristic(this.platform.Characteristic.Active,
+      this.active ? this.platform.Characteristic.Active.ACTIVE : this.platform.Characteristic.Active.INACTIVE);
+    this.service.updateCharacteristic(this.platform.Characteristic.InUse,
+      this.inUse ? this.platform.Characteristic.InUse.IN_USE : this.platform.Characteristic.InUse.NOT_IN_USE);
+  }
+}
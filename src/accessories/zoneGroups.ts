@@ -0,0 +1,173 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import type { DigitalStromPlatform } from '../platform.js';
+import type { AccessoryHandler, ApartmentStatus, ScenarioApplication, ZoneStatus } from '../types/digitalStromTypes.js';
+
+
+/**
+ * Represents a Homebridge accessory controlling all lights or all shades of a digitalSTROM zone.
+ * Uses a single zone scenario instead of one command per device.
+ */
+export class ZoneGroupPlatformAccessory implements AccessoryHandler {
+  /** The Homebridge Switch (lights) or WindowCovering (shades) service */
+  private service: Service;
+  /** Cached state, true if the lights are on or the shades are open */
+  private currentState = false;
+
+  /**
+   * Constructs a new ZoneGroupPlatformAccessory.
+   * @param platform The DigitalStromPlatform instance.
+   * @param accessory The Homebridge PlatformAccessory instance.
+   */
+  constructor(
+    private readonly platform: DigitalStromPlatform,
+    private readonly accessory: PlatformAccessory,
+  ) {
+    // Set accessory information
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'DigitalSTROM')
+      .setCharacteristic(this.platform.Characteristic.Model, this.isShades() ? 'ZoneShades' : 'ZoneLights')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, `${this.accessory.context.zone.id}-${this.accessory.context.application}`);
+
+    if (this.isShades()) {
+      this.service = this.accessory.getService(this.platform.Service.WindowCovering)
+        || this.accessory.addService(this.platform.Service.WindowCovering);
+
+      this.service.getCharacteristic(this.platform.Characteristic.CurrentPosition)
+        .onGet(this.getPosition.bind(this));
+      this.service.getCharacteristic(this.platform.Characteristic.PositionState)
+        .onGet(() => this.platform.Characteristic.PositionState.STOPPED);
+      this.service.getCharacteristic(this.platform.Characteristic.TargetPosition)
+        .setProps({ minStep: 100 })
+        .onSet(this.setTargetPosition.bind(this))
+        .onGet(this.getPosition.bind(this));
+      this.service.getCharacteristic(this.platform.Characteristic.HoldPosition)
+        .onSet(this.holdPosition.bind(this));
+    } else {
+      this.service = this.accessory.getService(this.platform.Service.Switch)
+        || this.accessory.addService(this.platform.Service.Switch);
+
+      this.service.getCharacteristic(this.platform.Characteristic.On)
+        .onSet(this.setOn.bind(this))
+        .onGet(this.getOn.bind(this));
+    }
+
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName);
+
+    this.platform.log.debug('ZoneGroupPlatformAccessory created for:', this.accessory.displayName);
+  }
+
+  /**
+   * Whether this accessory controls the shades (true) or the lights (false) of the zone.
+   */
+  private isShades(): boolean {
+    return this.accessory.context.application === 'shades';
+  }
+
+  /**
+   * Invokes a zone scenario for the application of this accessory.
+   * @param actionId The scenario action, e.g. 'on', 'off' or 'stop'.
+   */
+  private async invokeZoneScenario(actionId: string): Promise<void> {
+    await this.platform.dsAPI.invokeScenario({
+      context: 'applicationZone',
+      actionId,
+      application: this.accessory.context.application as ScenarioApplication,
+      zone: this.accessory.context.zone.id,
+    });
+  }
+
+  /**
+   * Turns all lights of the zone on or off.
+   * @param value The new On/Off value.
+   */
+  async setOn(value: CharacteristicValue) {
+    try {
+      await this.invokeZoneScenario(value ? 'on' : 'off');
+      this.currentState = value as boolean;
+      this.platform.log.info(`${this.accessory.displayName} → ${value ? 'On' : 'Off'}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set ${this.accessory.displayName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Gets the current On/Off state of the zone lights.
+   * Returns the cached value — updates are handled by updateState on apartmentStatusChanged events.
+   */
+  async getOn(): Promise<CharacteristicValue> {
+    return this.currentState;
+  }
+
+  /**
+   * Opens or closes all shades of the zone.
+   * Zone scenarios only support fully open or closed, intermediate positions are rounded.
+   * @param value The new target position (0-100).
+   */
+  async setTargetPosition(value: CharacteristicValue) {
+    const open = Number(value) >= 50;
+    try {
+      await this.invokeZoneScenario(open ? 'on' : 'off');
+      this.currentState = open;
+      this.platform.log.info(`${this.accessory.displayName} → ${open ? 'Open' : 'Close'}`);
+    } catch (error) {
+      this.platform.log.error(`Failed to set ${this.accessory.displayName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Gets the position of the zone shades (0 or 100).
+   * Returns the cached value — updates are handled by updateState on apartmentStatusChanged events.
+   */
+  async getPosition(): Promise<CharacteristicValue> {
+    return this.currentState ? 100 : 0;
+  }
+
+  /**
+   * Stops all shades of the zone.
+   * @param value `true` when HomeKit requests a stop, follow-up `false` writes are ignored.
+   */
+  async holdPosition(value: CharacteristicValue) {
+    if (!value) {
+      return;
+    }
+    try {
+      await this.invokeZoneScenario('stop');
+      this.platform.log.info(`${this.accessory.displayName} stopped`);
+    } catch (error) {
+      this.platform.log.error(`Failed to stop ${this.accessory.displayName}:`, error);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Updates the accessory state from the latest apartment status.
+   * Called by the platform when apartment status changes.
+   * @param apartmentStatus The latest apartment status object.
+   */
+  public async updateState(apartmentStatus: ApartmentStatus): Promise<void> {
+    const zoneId = this.accessory.context.zone.id as string;
+    const zoneStatus = apartmentStatus?.included?.zones?.find((z: ZoneStatus) => z.id === zoneId);
+    const applicationStatus = zoneStatus?.attributes?.applications?.find((a) => a.id === this.accessory.context.application);
+
+    if (!applicationStatus?.status) {
+      this.platform.log.debug(`No zone status available for ${this.accessory.displayName}`);
+      return;
+    }
+
+    const newState = applicationStatus.status !== 'off';
+    if (newState === this.currentState) {
+      return;
+    }
+
+    this.currentState = newState;
+    if (this.isShades()) {
+      this.service.updateCharacteristic(this.platform.Characteristic.CurrentPosition, this.currentState ? 100 : 0);
+      this.service.updateCharacteristic(this.platform.Characteristic.TargetPosition, this.currentState ? 100 : 0);
+    } else {
+      this.service.updateCharacteristic(this.platform.Characteristic.On, this.currentState);
+    }
+    this.platform.log.debug(`${this.accessory.displayName} → ${this.currentState}`);
+  }
+}
@@ -324,6 +324,38 @@ export class digitalStromAPI {
     }
   }
 
+  /**
+   * Get the status of a single device.
+   * @param dsuid The device unique ID.
+   * @returns Device status as a JSON object of type T.
+   */
+  async getDeviceStatus<T = unknown>(dsuid: string): Promise<T> {
+    this.log.debug(`Getting device status for ${dsuid}`);
+    try {
+      const response = await this.axios.get<ApiResponse<T>>(`/api/v1/apartment/dsDevices/${dsuid}/status`);
+      return response.data.data;
+    } catch (error: unknown) {
+      this.log.error(`Failed to get device status for ${dsuid}:`, (error as Error).message ?? error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the status of a single zone.
+   * @param zoneId The zone ID.
+   * @returns Zone status as a JSON object of type T.
+   */
+  async getZoneStatus<T = unknown>(zoneId: string): Promise<T> {
+    this.log.debug(`Getting zone status for ${zoneId}`);
+    try {
+      const response = await this.axios.get<ApiResponse<T>>(`/api/v1/apartment/zones/${zoneId}/status`);
+      return response.data.data;
+    } catch (error: unknown) {
+      this.log.error(`Failed to get zone status for ${zoneId}:`, (error as Error).message ?? error);
+      throw error;
+    }
+  }
+
   /**
    * Get Meterings values.
    * @returns Meterings values as a JSON object of type T.
@@ -367,11 +399,48 @@ export class digitalStromAPI {
     value: CharacteristicValue,
   ): Promise<T> {
     this.log.debug(`Set ${outputId} to ${value} for ${dsuid}`);
+    return this.setDeviceOutputValues<T>(dsuid, functionBlockId, [{ outputId, value }]);
+  }
+
+  /**
+   * Set several output values of a function block in a single request (PATCH).
+   * @param dsuid The device unique ID.
+   * @param functionBlockId The function block ID.
+   * @param values The output IDs and the values to set.
+   * @returns The response data of type T.
+   */
+  async setDeviceOutputValues<T = unknown>(
+    dsuid: string,
+    functionBlockId: string,
+    values: Array<{ outputId: string; value: CharacteristicValue }>,
+  ): Promise<T> {
     const url = `/api/v1/apartment/dsDevices/${dsuid}/status`;
+    const data = values.map(({ outputId, value }) => ({
+      op: 'replace',
+      path: `/functionBlocks/${functionBlockId}/outputs/${outputId}/value`,
+      value: value,
+    }));
+    return this.patchApiRequest<T>(url, data);
+  }
+
+  /**
+   * Set zone status value (PATCH).
+   * @param zoneId The zone ID.
+   * @param path The path of the status value, e.g. 'sensors/temperatureSetpoint/value'.
+   * @param value The value to set.
+   * @returns The response data of type T.
+   */
+  async setZoneStatusValue<T = unknown>(
+    zoneId: string,
+    path: string,
+    value: CharacteristicValue,
+  ): Promise<T> {
+    this.log.debug(`Set ${path} to ${value} for zone ${zoneId}`);
+    const url = `/api/v1/apartment/zones/${zoneId}/status`;
     const data = [
       {
         op: 'replace',
-        path: `/functionBlocks/${functionBlockId}/outputs/${outputId}/value`,
+        path: `/${path}`,
         value: value,
       },
     ];
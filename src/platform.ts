@@ -1,10 +1,30 @@
-import type { API, Characteristic, DynamicPlatformPlugin, Logging, PlatformAccessory, PlatformConfig, Service } from 'homebridge';
+import type { API, Characteristic, DynamicPlatformPlugin, Logging, PlatformAccessory, PlatformConfig, Service, WithUUID } from 'homebridge';
 import { isIP } from 'net';
-import type { FunctionBlock, Apartment, ApartmentStatus, PluginOptions, AccessoryHandler } from './types/digitalStromTypes.js';
+import type {
+  FunctionBlock, Apartment, ApartmentStatus, PluginOptions, AccessoryHandler, MeteringValues, Zone, ButtonInputEvent, Cluster,
+  UserDefinedState, RelayType, DsDevice, FunctionBlockStatus, PlatformState, DeviceStatus, ZoneStatus,
+  NotificationEvent, ApartmentStatusChangedEvent, StatusChange,
+} from './types/digitalStromTypes.js';
 import { DEVICE_TYPE_CONFIG } from './types/deviceTypes.js';
+import { createEveTypes, EveCharacteristicTypes, EveServiceTypes } from './types/eveTypes.js';
 import { LightPlatformAccessory } from './accessories/lights.js';
 import { ShadePlatformAccessory } from './accessories/shades.js';
+import { SensorPlatformAccessory } from './accessories/sensors.js';
+import { ButtonPlatformAccessory } from './accessories/buttons.js';
+import { FanPlatformAccessory } from './accessories/fans.js';
+import { HeatingValvePlatformAccessory } from './accessories/heatingValves.js';
+import { WaterValvePlatformAccessory } from './accessories/waterValves.js';
+import { SpeakerPlatformAccessory } from './accessories/speakers.js';
+import { TelevisionPlatformAccessory } from './accessories/televisions.js';
+import { RelayPlatformAccessory } from './accessories/relays.js';
+import { ImpulsePlatformAccessory } from './accessories/impulses.js';
 import { ApartmentScenePlatformAccessory } from './accessories/apartmentScenes.js';
+import { MeteringPlatformAccessory, splitMeteringId } from './accessories/meterings.js';
+import { ThermostatPlatformAccessory } from './accessories/thermostats.js';
+import { ZoneGroupPlatformAccessory } from './accessories/zoneGroups.js';
+import { AreaPlatformAccessory } from './accessories/areas.js';
+import { ClusterPlatformAccessory } from './accessories/clusters.js';
+import { UserDefinedStatePlatformAccessory } from './accessories/userDefinedStates.js';
 import { APARTMENT_SCENE_DEFINITIONS } from './types/sceneTypes.js';
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings.js';
 import { digitalStromAPI } from './digitalStromAPI.js';
@@ -18,16 +38,31 @@ import webSocketClient from './webSocketClient.js';
 export class DigitalStromPlatform implements DynamicPlatformPlugin {
   public readonly Service: typeof Service;
   public readonly Characteristic: typeof Characteristic;
+  /** Custom Eve characteristics and services (e.g. power consumption) */
+  public readonly EveCharacteristic: EveCharacteristicTypes;
+  public readonly EveService: EveServiceTypes;
 
-  /** Tracks restored cached accessories */
+  /** Tracks restored cached and newly registered accessories */
   public readonly accessories: Map<string, PlatformAccessory> = new Map();
   public readonly discoveredCacheUUIDs: Set<string> = new Set();
+  /** Accessories published as external accessories (e.g. televisions), these are not cached by Homebridge */
+  private readonly externalAccessories: Map<string, PlatformAccessory> = new Map();
+  /** Device types exposed as television, which are published as external accessories */
+  private readonly EXTERNAL_DEVICE_TYPES = ['video', 'audio'];
 
   /**
-   * Stores runtime handler instances for each accessory.
+   * Stores runtime handler instances for each accessory (one per function block for device accessories).
    * WeakMap ensures handlers are garbage collected when accessories are removed.
    */
-  private handlerMap = new WeakMap<PlatformAccessory, AccessoryHandler>();
+  private handlerMap = new WeakMap<PlatformAccessory, AccessoryHandler[]>();
+
+  /** Clusters of the apartment, used to resolve the cluster membership of devices */
+  private clusters: Cluster[] = [];
+
+  /** Names of the circuits, keyed by the dSUID of their meter, used to name the metering accessories */
+  private circuitNames: Map<string, string> = new Map();
+  /** Ids of the devices of the apartment, whose meterings are not circuit meterings */
+  private dsDeviceIds: Set<string> = new Set();
 
   /** digitalSTROM API instance */
   public dsAPI!: digitalStromAPI;
@@ -35,6 +70,43 @@ export class DigitalStromPlatform implements DynamicPlatformPlugin {
   /** WebSocket client instance */
   public webSocketClient!: webSocketClient;
 
+  /** Metering polling interval timer */
+  private meteringInterval: NodeJS.Timeout | null = null;
+  /** Whether the metering accessories have been registered */
+  private meteringsRegistered = false;
+  private readonly DEFAULT_METERING_INTERVAL = 60; // seconds
+  private readonly MIN_METERING_INTERVAL = 10; // seconds
+
+  /** Debounce timer of the next apartment status refresh */
+  private refreshTimer: NodeJS.Timeout | null = null;
+  /** Whether an apartment status refresh is in flight */
+  private refreshInFlight = false;
+  /** Status changes requested since the last refresh started, null if no refresh is queued */
+  private pendingChanges: { apartment: boolean; dsDevices: Set<string>; zones: Set<string> } | null = null;
+  /** Latest apartment status, kept up to date by full and targeted refreshes */
+  private apartmentStatus: ApartmentStatus | null = null;
+  /** Counters of the status refresh pipeline */
+  private readonly refreshMetrics = { events: 0, refreshes: 0, coalesced: 0 };
+  private readonly REFRESH_DEBOUNCE_DELAY = 250; // milliseconds
+
+  /** Apartment status polling interval timer, set while the WebSocket is down */
+  private statusPollingInterval: NodeJS.Timeout | null = null;
+  private readonly DEFAULT_STATUS_POLLING_INTERVAL = 30; // seconds
+  private readonly MIN_STATUS_POLLING_INTERVAL = 5; // seconds
+
+  /** Current lifecycle state of the platform */
+  private state: PlatformState = 'initializing';
+  /** Whether the dSS certificate has been validated */
+  private validated = false;
+  /** Whether the plugin is shutting down, no further startup attempts are made */
+  private isShuttingDown = false;
+  /** Startup retry timer, set while the platform is degraded */
+  private retryTimer: NodeJS.Timeout | null = null;
+  /** Number of failed startup attempts since the platform was last running */
+  private retryCount = 0;
+  private readonly BASE_RETRY_DELAY = 10000; // 10 seconds
+  private readonly MAX_RETRY_DELAY = 300000; // 5 minutes
+
   /**
    * Constructs the DigitalStromPlatform.
    * @param log Logger instance from Homebridge.
@@ -49,6 +121,10 @@ export class DigitalStromPlatform implements DynamicPlatformPlugin {
     this.Service = api.hap.Service;
     this.Characteristic = api.hap.Characteristic;
 
+    const eveTypes = createEveTypes(api);
+    this.EveCharacteristic = eveTypes.Characteristic;
+    this.EveService = eveTypes.Service;
+
     if (!config || !config.options) {
       this.log.info('No options found in configuration file, disabling plugin.');
       return;
@@ -90,69 +166,195 @@ export class DigitalStromPlatform implements DynamicPlatformPlugin {
     // to start discovery of new accessories.
     this.api.on('didFinishLaunching', async () => {
       this.log.debug('Executed didFinishLaunching callback');
+      this.runPlatform();
+    });
 
+    // When this event is fired it means the plugin fails to load or Homebridge restarts
+    this.api.on('shutdown', async () => this.pluginShutdown());
+  }
+
+  /**
+   * Start the platform lifecycle without waiting for it.
+   * Errors escaping the lifecycle degrade the platform instead of ending up as unhandled rejections.
+   */
+  private runPlatform(): void {
+    void this.startPlatform().catch((error: unknown) => {
+      this.log.error('Platform startup failed:', error);
+      this.setDegraded('Platform startup failed');
+    });
+  }
+
+  /**
+   * Runs the platform lifecycle: initializing → validating → discovering → running.
+   * If the dSS cannot be reached, the platform is degraded and the lifecycle is retried with backoff,
+   * so it starts running as soon as the dSS is back (e.g. after a power cut where Homebridge starts first).
+   * A running platform is degraded as well if the status refresh fails, every retry starts over at initializing.
+   */
+  private async startPlatform(): Promise<void> {
+    const options = this.config.options!;
+    this.setState('initializing');
+
+    if (!this.validated) {
       // If certificate checking is enabled and no fingerprint was provided, try to get it for the user
       if (options.disableCertificateValidation !== true && !options.fingerprint) {
         this.log.warn('No certificate fingerprint configured.');
         this.log.warn('Attempting to retrieve fingerprint for first-time setup...');
-        try {
-          const fingerprint = await this.dsAPI.getCertificateFingerprint();
-          if (fingerprint) {
-            this.log.warn('='.repeat(80));
-            this.log.warn('# SAVE YOUR DSS CERTIFICATE FINGERPRINT TO YOUR DSS PLUGIN CONFIG:');
-            this.log.warn('#');
-            this.log.warn(`# Fingerprint: ${fingerprint}`);
-            this.log.warn('#');
-            this.log.warn('='.repeat(80));
-            this.log.error('Fingerprint not configured yet, disabling plugin.');
-            return;
-          }
-        } catch (error) {
-          this.log.error('Could not retrieve fingerprint:', error);
+        const fingerprint = await this.dsAPI.getCertificateFingerprint();
+        if (!fingerprint) {
+          this.setDegraded('Could not retrieve fingerprint');
+          return;
         }
+        this.log.warn('='.repeat(80));
+        this.log.warn('# SAVE YOUR DSS CERTIFICATE FINGERPRINT TO YOUR DSS PLUGIN CONFIG:');
+        this.log.warn('#');
+        this.log.warn(`# Fingerprint: ${fingerprint}`);
+        this.log.warn('#');
+        this.log.warn('='.repeat(80));
+        this.log.error('Fingerprint not configured yet, disabling plugin.');
+        return;
       }
-      
+
       // Initialize API with certificate validation
-      const initialized = await this.dsAPI.initializeValidation();
-      
-      if (!initialized) {
-        this.log.error('Failed to initialize digitalSTROM API');
+      this.setState('validating');
+      if (!await this.dsAPI.initializeValidation()) {
+        this.setDegraded('Failed to initialize digitalSTROM API');
         return;
       }
+      this.validated = true;
+      this.log.info('digitalSTROM API initialized successfully');
+    }
 
-      // Create webSocket instance
-      this.webSocketClient = new webSocketClient(
-        options.dssip,
-        this.log,
-      );
+    if (!this.webSocketClient) {
+      this.startWebSocket();
+    }
 
-      // WebSocket listener
-      this.webSocketClient.addMessageListener('STATUS_LISTENER', (msg: { command: string; payload?: string }) => { 
-        try {
-          const json = JSON.parse(msg.command);
-          if (json.arguments && json.arguments[0]?.type === 'apartmentStatusChanged') {
-            this.log.debug('STATUS_LISTENER: Apartment status changed');
-            this.updateAccessories();
-          }
-        } catch (error: unknown) {
-          if (error instanceof Error) {
-            this.log.error(`Error handling WebSocket message: ${error.message}`);
-            this.log.debug(error.stack ?? error.message);
-          } else {
-            this.log.error('Error handling WebSocket message: Unknown error type');
-            this.log.debug(String(error));
-          }
+    // run the method to discover / register your devices as accessories
+    this.setState('discovering');
+    if (!await this.discoverDevices()) {
+      this.setDegraded('Device discovery incomplete');
+      return;
+    }
+
+    this.retryCount = 0;
+    this.setState('running');
+    this.log.debug('Finished initializing platform:', this.config.name);
+
+    // Get the current states, status changes may have been missed while the dSS was not reachable
+    this.requestStatusRefresh();
+  }
+
+  /**
+   * Create the WebSocket client and listen for status changes and button events.
+   */
+  private startWebSocket(): void {
+    this.webSocketClient = new webSocketClient(
+      this.config.options!.dssip,
+      this.log,
+    );
+
+    // WebSocket listener
+    this.webSocketClient.addMessageListener('STATUS_LISTENER', (msg: { command: string; payload?: string }) => { 
+      try {
+        const event = this.parseNotification(msg.command);
+        if (event?.type === 'apartmentStatusChanged') {
+          const change = this.getStatusChange(event);
+          this.log.debug(`STATUS_LISTENER: Status changed: ${change.scope}${'id' in change ? ` ${change.id}` : ''}`);
+          this.requestStatusRefresh(change);
+        } else if (event?.type === 'buttonInputEvent') {
+          this.log.debug('STATUS_LISTENER: Button input event');
+          this.handleButtonEvent(event);
         }
-      });
-      
-      this.log.info('digitalSTROM API initialized successfully');
-      this.log.debug('Finished initializing platform:', this.config.name);
-      // run the method to discover / register your devices as accessories
-      this.discoverDevices();
+      } catch (error: unknown) {
+        if (error instanceof Error) {
+          this.log.error(`Error handling WebSocket message: ${error.message}`);
+          this.log.debug(error.stack ?? error.message);
+        } else {
+          this.log.error('Error handling WebSocket message: Unknown error type');
+          this.log.debug(String(error));
+        }
+      }
     });
 
-    // When this event is fired it means the plugin fails to load or Homebridge restarts
-    this.api.on('shutdown', async () => this.pluginShutdown());
+    // Status updates are pushed via WebSocket, so poll the apartment status while it is down
+    this.webSocketClient.addConnectionListener('STATUS_LISTENER', (connected: boolean) => {
+      if (connected) {
+        this.stopStatusPolling();
+      } else {
+        this.startStatusPolling();
+      }
+    });
+  }
+
+  /**
+   * Parse a WebSocket message into a typed notification event.
+   * @param command The command part of the WebSocket message.
+   * @returns The notification event, or null if the message is not a supported notification.
+   */
+  private parseNotification(command: string): NotificationEvent | null {
+    const json = JSON.parse(command);
+    const event = json.arguments?.[0];
+    if (event?.type === 'apartmentStatusChanged' || event?.type === 'buttonInputEvent') {
+      return event as NotificationEvent;
+    }
+    return null;
+  }
+
+  /**
+   * Get the entity whose status changed from an apartmentStatusChanged event.
+   * Cluster and user-defined state status is only part of the apartment status, so changes that may affect it refresh the apartment.
+   * @param event The apartment status changed event.
+   * @returns The changed device or zone, or the apartment if the event does not name one or may affect a cluster or user-defined state.
+   */
+  private getStatusChange(event: ApartmentStatusChangedEvent): StatusChange {
+    if (event.attributes?.cluster || event.attributes?.userDefinedState) {
+      return { scope: 'apartment' };
+    }
+    // The status of a cluster follows its devices, but is not part of the device status
+    if (event.attributes?.dsDevice && this.clusters.some((c) => c.attributes?.dsDevices?.includes(event.attributes!.dsDevice!))) {
+      return { scope: 'apartment' };
+    }
+    if (event.attributes?.dsDevice) {
+      return { scope: 'dsDevice', id: event.attributes.dsDevice };
+    }
+    if (event.attributes?.zone) {
+      return { scope: 'zone', id: event.attributes.zone };
+    }
+    return { scope: 'apartment' };
+  }
+
+  /**
+   * Set the lifecycle state of the platform and log the transition.
+   * @param state The new state.
+   */
+  private setState(state: PlatformState): void {
+    if (state === this.state) {
+      return;
+    }
+    this.log.info(`Platform state: ${this.state} → ${state}`);
+    this.state = state;
+  }
+
+  /**
+   * Degrade the platform and retry the startup with exponential backoff.
+   * @param reason Why the current startup attempt failed.
+   */
+  private setDegraded(reason: string): void {
+    this.setState('degraded');
+    if (this.isShuttingDown || this.retryTimer) {
+      return;
+    }
+
+    this.retryCount++;
+    const delay = Math.min(
+      this.BASE_RETRY_DELAY * Math.pow(2, this.retryCount - 1),
+      this.MAX_RETRY_DELAY,
+    );
+    this.log.warn(`${reason}, retrying in ${delay / 1000} seconds (attempt ${this.retryCount})`);
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.runPlatform();
+    }, delay);
   }
 
   /**
@@ -170,9 +372,14 @@ export class DigitalStromPlatform implements DynamicPlatformPlugin {
   /**
    * Discovers devices from the digitalSTROM API and registers them as Homebridge accessories.
    * Accessories must only be registered once; previously created accessories must not be registered again.
+   * If the dSS cannot be reached, cached accessories are kept and shown as not responding.
+   * Accessories no longer present are only removed after a complete discovery, cached devices are kept if the dSS returns none.
+   * @returns True if the discovery was complete, false if it has to be retried.
    */
-  async discoverDevices() {
+  async discoverDevices(): Promise<boolean> {
     this.discoveredCacheUUIDs.clear();
+    // Whether cached device accessories are kept although the dSS returned no devices
+    let keepCachedDevices = false;
     try {
       // Test connection first
       this.log.info('Testing connection to digitalSTROM server...');
@@ -180,7 +387,8 @@ export class DigitalStromPlatform implements DynamicPlatformPlugin {
       
       if (!connected) {
         this.log.error('Failed to connect to digitalSTROM server');
-        return;
+        this.handleDiscoveryFailure();
+        return false;
       }
 
       this.log.info('Successfully connected to digitalSTROM server');
@@ -189,69 +397,115 @@ export class DigitalStromPlatform implements DynamicPlatformPlugin {
       this.log.info('Discovering devices...');
       const apartment = await this.dsAPI.getApartment<Apartment>();
 
-      const devices = apartment.included?.functionBlocks ?? [];
-      this.log.info(`Found ${devices.length} devices`);
+      const functionBlocks = apartment.included?.functionBlocks ?? [];
+      const dsDevices = this.groupFunctionBlocks(apartment.included?.dsDevices ?? [], functionBlocks);
+      this.clusters = apartment.included?.clusters ?? [];
+      this.circuitNames = this.getCircuitNames(apartment);
+      this.dsDeviceIds = new Set(dsDevices.map(({ dsDevice }) => dsDevice.id));
+      this.log.info(`Found ${dsDevices.length} devices with ${functionBlocks.length} function blocks`);
+
+      // A dSS that is still starting up returns no devices, which must not remove all cached devices
+      if (dsDevices.length === 0 && [...this.accessories.values()].some((accessory) => accessory.context.dsDevice)) {
+        this.log.warn('The dSS returned no devices, keeping the cached devices');
+        keepCachedDevices = true;
+      }
 
       // Loop over the discovered devices and register each one if it has not already been registered
-      for (const device of devices) {
-        // Generate a unique id for the accessory this should be generated from
-        // something globally unique, but constant, for example, the device serial
-        // number or MAC address
-        const uuid = this.api.hap.uuid.generate(device.id);
+      for (const { dsDevice, functionBlocks: deviceFunctionBlocks } of dsDevices) {
+        // Get the supported function blocks of this device, each one becomes a service of the accessory
+        let supportedFunctionBlocks: Array<{ functionBlock: FunctionBlock; dssDeviceType: string }> = [];
 
-        // Get type of this device
-        const dssDeviceType = this.getDssDeviceType(device);
+        for (const functionBlock of deviceFunctionBlocks) {
+          // Get type of this function block
+          const dssDeviceType = this.getDssDeviceType(functionBlock);
 
-        if (!device.attributes || device.attributes.name === null) {
-          // Skip device with no name or undefined attributes
-          this.log.info(`Ignoring: ${device.id}. Please set a name for the device in your DSS`);
-          continue;
+          if (!functionBlock.attributes || functionBlock.attributes.name === null) {
+            // Skip function block with no name or undefined attributes
+            this.log.info(`Ignoring: ${functionBlock.id}. Please set a name for the device in your DSS`);
+            continue;
+          }
+
+          if (dssDeviceType === 'NotSupported') {
+            // This type of accessory is not supported
+            this.log.info(`Ignoring: ${functionBlock.attributes.name} of type: ${functionBlock.attributes.technicalName} is not supported`);
+            continue;
+          }
+
+          supportedFunctionBlocks.push({ functionBlock, dssDeviceType });
+
+          // Sensor inputs are exposed in addition to the primary type (e.g. a light with a temperature sensor)
+          if (dssDeviceType !== 'sensor' && this.hasSensorInputs(functionBlock)) {
+            supportedFunctionBlocks.push({ functionBlock, dssDeviceType: 'sensor' });
+          }
         }
 
-        if (dssDeviceType === 'NotSupported') {
-          // This type of accessory is not supported
-          this.log.info(`Ignoring: ${device.attributes.name} of type: ${device.attributes.technicalName} is not supported`);
+        // HomeKit shows only one television per bridge, so video and audio devices are published as external accessories
+        for (const { functionBlock, dssDeviceType } of supportedFunctionBlocks.filter((f) => this.EXTERNAL_DEVICE_TYPES.includes(f.dssDeviceType))) {
+          this.publishExternalAccessory(dssDeviceType, dsDevice, functionBlock);
+        }
+        supportedFunctionBlocks = supportedFunctionBlocks.filter((f) => !this.EXTERNAL_DEVICE_TYPES.includes(f.dssDeviceType));
+
+        if (supportedFunctionBlocks.length === 0) {
           continue;
         }
 
+        // Generate a unique id for the accessory this should be generated from
+        // something globally unique, but constant, for example, the device serial
+        // number or MAC address
+        const uuid = this.getDeviceAccessoryUUID(dsDevice, [...new Set(supportedFunctionBlocks.map((f) => f.functionBlock))]);
+        const name = dsDevice.attributes?.name || supportedFunctionBlocks[0].functionBlock.attributes?.name || 'Unknown Device';
+
         // See if an accessory with the same uuid has already been registered and restored from
         // the cached devices we stored in the `configureAccessory` method above
         const existingAccessory = this.accessories.get(uuid);
+        const accessory = existingAccessory ?? new this.api.platformAccessory(name, uuid);
+
+        // Accessories set up by a previous discovery attempt keep their handlers
+        if (existingAccessory && this.handlerMap.has(existingAccessory)) {
+          this.discoveredCacheUUIDs.add(uuid);
+          continue;
+        }
 
         if (existingAccessory) {
           // The accessory already exists
           this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
-
-          // Update the accessory context with the latest device info
-          existingAccessory.context.device = device;
-
-          // Create the runtime handler that makes the accessory work
-          // (must run before updatePlatformAccessories so any service cleanup is persisted)
-          this.createAccessoryHandler(dssDeviceType, existingAccessory);
-
-          // Persist the updated context and cleaned-up service state to disk
-          this.api.updatePlatformAccessories([existingAccessory]);
-          
-          // It is possible to remove platform accessories at any time using `api.unregisterPlatformAccessories`, e.g.:
-          // remove platform accessories when no longer present
-          // this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [existingAccessory]);
-          // this.log.info('Removing existing accessory from cache:', existingAccessory.displayName);
         } else {
           // The accessory does not yet exist, so we need to create it
-          this.log.info('Adding new accessory:', device.attributes.name);
+          this.log.info('Adding new accessory:', name);
+        }
 
-          // Create a new accessory
-          const accessory = new this.api.platformAccessory(device.attributes.name ?? 'Unknown Device', uuid);
+        // store a copy of the device and its function blocks in the `accessory.context`
+        // the `context` property can be used to store any data about the accessory you may need
+        delete accessory.context.device;
+        accessory.context.dsDevice = dsDevice;
+        accessory.context.functionBlocks = [...new Set(supportedFunctionBlocks.map((f) => f.functionBlock))];
 
-          // store a copy of the device object in the `accessory.context`
-          // the `context` property can be used to store any data about the accessory you may need
-          accessory.context.device = device;
+        this.setDeviceInformation(accessory, dsDevice, accessory.context.functionBlocks);
+        // Must run before the handlers are created, so they do not pick up services of another function block
+        this.removeStaleFunctionBlockServices(accessory, dsDevice, accessory.context.functionBlocks);
 
-          // Create the runtime handler that makes the accessory work
-          this.createAccessoryHandler(dssDeviceType, accessory);
+        // Create the runtime handlers that make the accessory work
+        // (must run before updatePlatformAccessories so any service cleanup is persisted)
+        this.handlerMap.delete(accessory);
+        for (const { functionBlock, dssDeviceType } of supportedFunctionBlocks) {
+          this.createFunctionBlockHandler(dssDeviceType, accessory, functionBlock);
+        }
+
+        // Televisions and speakers of previous versions were part of the bridged accessory
+        const externalServiceTypes = [this.Service.Television, this.Service.InputSource, this.Service.TelevisionSpeaker, this.Service.Speaker];
+        for (const service of [...accessory.services]) {
+          if (externalServiceTypes.some((type) => type.UUID === service.UUID)) {
+            accessory.removeService(service);
+          }
+        }
 
+        if (existingAccessory) {
+          // Persist the updated context and cleaned-up service state to disk
+          this.api.updatePlatformAccessories([existingAccessory]);
+        } else {
           // Link the accessory to your platform
           this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+          this.accessories.set(uuid, accessory);
         }
 
         // push into discoveredCacheUUIDs
@@ -259,8 +513,45 @@ export class DigitalStromPlatform implements DynamicPlatformPlugin {
       }
 
       this.log.info('Device discovery completed');
+
+      // Register zone thermostats if enabled in config
+      if (this.config.options?.enableZoneThermostats) {
+        this.registerZoneThermostats(apartment.included?.zones ?? []);
+      } else {
+        this.log.info('Zone thermostats ignored');
+      }
+
+      // Register zone light and shade groups if enabled in config
+      if (this.config.options?.enableZoneGroups) {
+        this.registerZoneGroups(apartment.included?.zones ?? []);
+      } else {
+        this.log.info('Zone groups ignored');
+      }
+
+      // Register area switches if enabled in config
+      if (this.config.options?.enableAreas) {
+        this.registerAreas(apartment.included?.zones ?? []);
+      } else {
+        this.log.info('Areas ignored');
+      }
+
+      // Register cluster accessories if enabled in config
+      if (this.config.options?.enableClusters) {
+        this.registerClusters(this.clusters);
+      } else {
+        this.log.info('Clusters ignored');
+      }
+
+      // Register user-defined states if enabled in config
+      if (this.config.options?.enableUserDefinedStates) {
+        this.registerUserDefinedStates(apartment.included?.userDefinedStates ?? []);
+      } else {
+        this.log.info('User-defined states ignored');
+      }
     } catch (error) {
       this.log.error('Error discovering devices:', error);
+      this.handleDiscoveryFailure();
+      return false;
     }
 
     // Register apartment scenes if enabled in config
@@ -271,6 +562,12 @@ export class DigitalStromPlatform implements DynamicPlatformPlugin {
         const uuid = this.api.hap.uuid.generate(`apartmentScene-${scene.id}`);
         const existingAccessory = this.accessories.get(uuid);
 
+        // Scenes set up by a previous discovery attempt keep their handlers
+        if (existingAccessory && this.handlerMap.has(existingAccessory)) {
+          this.discoveredCacheUUIDs.add(uuid);
+          continue;
+        }
+
         if (existingAccessory) {
           this.log.info('Restoring existing scene from cache:', existingAccessory.displayName);
           existingAccessory.context.scene = { id: scene.id, attributes: { name: scene.label } };
@@ -282,6 +579,7 @@ export class DigitalStromPlatform implements DynamicPlatformPlugin {
           accessory.context.scene = { id: scene.id, attributes: { name: scene.label } };
           this.createAccessoryHandler('scene', accessory);
           this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+          this.accessories.set(uuid, accessory);
         }
 
         this.discoveredCacheUUIDs.add(uuid);
@@ -292,13 +590,292 @@ export class DigitalStromPlatform implements DynamicPlatformPlugin {
       this.log.info('Apartment scenes ignored');
     }
 
+    // Register metering accessories (apartment and circuits) if enabled in config
+    if (this.config.options?.enableMetering) {
+      if (!await this.registerMeterings()) {
+        // Keep the cached metering accessories, the registration is retried on the next metering poll
+        for (const [uuid, accessory] of this.accessories) {
+          if (accessory.context.metering) {
+            this.discoveredCacheUUIDs.add(uuid);
+          }
+        }
+      }
+      this.startMeteringPolling();
+    } else {
+      this.log.info('Metering ignored');
+    }
+
     // Remove accessories from cache that are no longer present
     for (const [uuid, accessory] of this.accessories) {
-      if (!this.discoveredCacheUUIDs.has(uuid)) {
+      if (keepCachedDevices && accessory.context.dsDevice && !this.discoveredCacheUUIDs.has(uuid)) {
+        this.setAccessoryNotResponding(accessory);
+      } else if (!this.discoveredCacheUUIDs.has(uuid)) {
         this.log.info('Removing existing accessory from cache:', accessory.displayName);
         this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+        this.accessories.delete(uuid);
+      } else {
+        this.setAccessoryResponding(accessory);
       }
     }
+
+    // The discovery is retried until the dSS returns its devices
+    return !keepCachedDevices;
+  }
+
+  /**
+   * Registers one metering accessory for the apartment and for each circuit with metering values.
+   * @returns True if the metering accessories were registered, false if the metering values could not be fetched.
+   */
+  private async registerMeterings(): Promise<boolean> {
+    this.log.info('Registering metering accessories...');
+
+    try {
+      const meteringValues = await this.dsAPI.getMeteringsValues<MeteringValues>();
+      const origins = new Set((meteringValues.attributes?.values ?? []).map((v) => splitMeteringId(v.id).origin));
+
+      for (const origin of origins) {
+        // Device meterings are shown on the device accessory itself (e.g. outlet in use)
+        if (this.dsDeviceIds.has(origin) && !this.circuitNames.has(origin)) {
+          continue;
+        }
+        const circuitName = this.circuitNames.get(origin);
+        const name = origin === 'apartment' ? 'Apartment Energy' : circuitName ? `${circuitName} Energy` : `Circuit Energy ${origin}`;
+        this.registerVirtualAccessory(`metering-${origin}`, name, 'metering', { metering: { id: origin, attributes: { name } } });
+      }
+
+      this.meteringsRegistered = true;
+      this.log.info('Metering accessories registered');
+      return true;
+    } catch (error) {
+      this.log.error('Error registering metering accessories:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Handles a discovery that failed because the dSS could not be reached.
+   * Cached accessories are kept, so rooms, scenes and automations in HomeKit survive a dSS reboot.
+   * Accessories without runtime handler are shown as not responding until the discovery succeeds.
+   */
+  private handleDiscoveryFailure(): void {
+    for (const accessory of this.accessories.values()) {
+      if (!this.handlerMap.has(accessory)) {
+        this.setAccessoryNotResponding(accessory);
+      }
+    }
+  }
+
+  /**
+   * Mark all characteristics of an accessory as failed, so HomeKit shows it as not responding.
+   * @param accessory The platform accessory.
+   */
+  private setAccessoryNotResponding(accessory: PlatformAccessory): void {
+    const error = new this.api.hap.HapStatusError(this.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    for (const service of accessory.services) {
+      if (service.UUID === this.Service.AccessoryInformation.UUID) {
+        continue;
+      }
+      for (const characteristic of service.characteristics) {
+        characteristic.updateValue(error);
+      }
+    }
+  }
+
+  /**
+   * Clear the failed state of characteristics marked by setAccessoryNotResponding.
+   * Characteristics updated by the handlers are cleared anyway, this covers the ones only set once.
+   * @param accessory The platform accessory.
+   */
+  private setAccessoryResponding(accessory: PlatformAccessory): void {
+    for (const service of accessory.services) {
+      for (const characteristic of service.characteristics) {
+        if (characteristic.statusCode !== this.api.hap.HAPStatus.SUCCESS && characteristic.value !== null) {
+          characteristic.updateValue(characteristic.value);
+        }
+      }
+    }
+  }
+
+  /**
+   * Registers one thermostat accessory per heating-enabled zone.
+   * @param zones The zones of the apartment.
+   */
+  private registerZoneThermostats(zones: Zone[]): void {
+    this.log.info('Registering zone thermostats...');
+
+    for (const zone of zones) {
+      if (!zone.attributes?.applicationTypes?.includes('heating')) {
+        continue;
+      }
+      if (!zone.attributes.name) {
+        this.log.info(`Ignoring zone: ${zone.id}. Please set a name for the zone in your DSS`);
+        continue;
+      }
+      this.registerVirtualAccessory(`zoneThermostat-${zone.id}`, zone.attributes.name, 'thermostat', { zone });
+    }
+
+    this.log.info('Zone thermostats registered');
+  }
+
+  /**
+   * Registers one group accessory per zone and application (lights, shades).
+   * @param zones The zones of the apartment.
+   */
+  private registerZoneGroups(zones: Zone[]): void {
+    this.log.info('Registering zone groups...');
+
+    for (const zone of zones) {
+      if (!zone.attributes?.name) {
+        continue;
+      }
+      for (const application of ['lights', 'shades']) {
+        if (!zone.attributes.applications?.includes(application)) {
+          continue;
+        }
+        const name = `${zone.attributes.name} ${application === 'lights' ? 'Lights' : 'Shades'}`;
+        this.registerVirtualAccessory(`zoneGroup-${zone.id}-${application}`, name, 'zoneGroup', { zone, application });
+      }
+    }
+
+    this.log.info('Zone groups registered');
+  }
+
+  /**
+   * Registers one switch per named area (1-4) of the lights and shades of each zone.
+   * @param zones The zones of the apartment.
+   */
+  private registerAreas(zones: Zone[]): void {
+    this.log.info('Registering areas...');
+
+    for (const zone of zones) {
+      for (const applicationDetail of zone.attributes?.applicationDetails ?? []) {
+        const application = applicationDetail.id;
+        if (application !== 'lights' && application !== 'shades') {
+          continue;
+        }
+        for (const area of applicationDetail.areas ?? []) {
+          // Area ids are reported as '1'-'4' or 'area1'-'area4'
+          const areaNumber = area.id.replace(/^area/, '');
+          if (!['1', '2', '3', '4'].includes(areaNumber) || !area.name) {
+            continue;
+          }
+          this.registerVirtualAccessory(`area-${zone.id}-${application}-${areaNumber}`, area.name, 'area', {
+            zone,
+            application,
+            area: areaNumber,
+          });
+        }
+      }
+    }
+
+    this.log.info('Areas registered');
+  }
+
+  /**
+   * Registers one window covering accessory per shade or awning cluster.
+   * @param clusters The clusters of the apartment.
+   */
+  private registerClusters(clusters: Cluster[]): void {
+    this.log.info('Registering clusters...');
+
+    for (const cluster of clusters) {
+      const application = cluster.attributes?.application;
+      if (application !== 'shades' && application !== 'awnings') {
+        continue;
+      }
+      if (!cluster.attributes?.name) {
+        this.log.info(`Ignoring cluster: ${cluster.id}. Please set a name for the cluster in your DSS`);
+        continue;
+      }
+      this.registerVirtualAccessory(`cluster-${cluster.id}`, cluster.attributes.name, 'cluster', { cluster });
+    }
+
+    this.log.info('Clusters registered');
+  }
+
+  /**
+   * Registers one accessory per user-defined state, using the service type configured for it.
+   * @param userDefinedStates The user-defined states of the apartment.
+   */
+  private registerUserDefinedStates(userDefinedStates: UserDefinedState[]): void {
+    this.log.info('Registering user-defined states...');
+
+    for (const userDefinedState of userDefinedStates) {
+      if (!userDefinedState.attributes?.name) {
+        this.log.info(`Ignoring user-defined state: ${userDefinedState.id}. Please set a name for the state in your DSS`);
+        continue;
+      }
+      const stateType = this.config.options?.userDefinedStates?.find((u) => u.id === userDefinedState.id)?.type
+        ?? this.config.options?.userDefinedStateType
+        ?? 'contact';
+      this.registerVirtualAccessory(`userDefinedState-${userDefinedState.id}`, userDefinedState.attributes.name, 'userDefinedState', {
+        userDefinedState,
+        stateType,
+      });
+    }
+
+    this.log.info('User-defined states registered');
+  }
+
+  /**
+   * Registers an accessory that is not backed by a single device (e.g. zones, meterings),
+   * or restores it from cache if it was registered before.
+   * @param id Constant, unique id the accessory UUID is generated from.
+   * @param name The display name for new accessories.
+   * @param dssType The accessory handler type.
+   * @param context Data stored in the accessory context.
+   */
+  private registerVirtualAccessory(id: string, name: string, dssType: string, context: Record<string, unknown>): void {
+    const uuid = this.api.hap.uuid.generate(id);
+    const existingAccessory = this.accessories.get(uuid);
+
+    // Accessories set up by a previous discovery attempt or metering registration keep their handlers
+    if (existingAccessory && this.handlerMap.has(existingAccessory)) {
+      this.discoveredCacheUUIDs.add(uuid);
+      return;
+    }
+
+    if (existingAccessory) {
+      this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
+      Object.assign(existingAccessory.context, context);
+      this.createAccessoryHandler(dssType, existingAccessory);
+      this.api.updatePlatformAccessories([existingAccessory]);
+    } else {
+      this.log.info('Adding new accessory:', name);
+      const accessory = new this.api.platformAccessory(name, uuid);
+      Object.assign(accessory.context, context);
+      this.createAccessoryHandler(dssType, accessory);
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessories.set(uuid, accessory);
+    }
+
+    this.discoveredCacheUUIDs.add(uuid);
+  }
+
+  /**
+   * Publish a function block of a device as external accessory, with its own pairing in HomeKit.
+   * External accessories cannot be unpublished, so an accessory published by a previous discovery attempt is kept.
+   * @param dssDeviceType The device type string.
+   * @param dsDevice The device the function block belongs to.
+   * @param functionBlock The function block.
+   */
+  private publishExternalAccessory(dssDeviceType: string, dsDevice: DsDevice, functionBlock: FunctionBlock): void {
+    const uuid = this.api.hap.uuid.generate(`external-${functionBlock.id}`);
+    if (this.externalAccessories.has(uuid)) {
+      return;
+    }
+
+    const name = functionBlock.attributes?.name || dsDevice.attributes?.name || 'Unknown Device';
+    this.log.info('Publishing external accessory:', name);
+
+    const accessory = new this.api.platformAccessory(name, uuid);
+    accessory.context.dsDevice = dsDevice;
+    accessory.context.functionBlocks = [functionBlock];
+    this.setDeviceInformation(accessory, dsDevice, [functionBlock]);
+    this.createFunctionBlockHandler(dssDeviceType, accessory, functionBlock);
+
+    this.api.publishExternalAccessories(PLUGIN_NAME, [accessory]);
+    this.externalAccessories.set(uuid, accessory);
   }
 
   /**
@@ -326,30 +903,334 @@ export class DigitalStromPlatform implements DynamicPlatformPlugin {
   }
 
   /**
-   * Create the runtime handler for the accessory based on device type.
+   * Checks whether a function block has sensor inputs that can be exposed as sensor services.
+   * @param device The function block to check.
+   * @returns True if the sensor device type accepts the function block.
+   */
+  private hasSensorInputs(device: FunctionBlock): boolean {
+    const technicalName = device.attributes?.technicalName ?? '';
+    return DEVICE_TYPE_CONFIG.sensor.prefixes.includes(technicalName.substring(0, 2)) && DEVICE_TYPE_CONFIG.sensor.validate(device, technicalName);
+  }
+
+  /**
+   * Group the function blocks of the apartment by the device they belong to.
+   * Function blocks not referenced by any device are treated as device of their own.
+   * @param dsDevices The devices of the apartment.
+   * @param functionBlocks The function blocks of the apartment.
+   * @returns The devices with their function blocks.
+   */
+  private groupFunctionBlocks(
+    dsDevices: DsDevice[],
+    functionBlocks: FunctionBlock[],
+  ): Array<{ dsDevice: DsDevice; functionBlocks: FunctionBlock[] }> {
+    const groups: Array<{ dsDevice: DsDevice; functionBlocks: FunctionBlock[] }> = [];
+    const grouped = new Set<string>();
+
+    for (const dsDevice of dsDevices) {
+      const deviceFunctionBlocks = functionBlocks.filter((fb) => dsDevice.attributes?.functionBlocks?.includes(fb.id));
+      if (deviceFunctionBlocks.length > 0) {
+        groups.push({ dsDevice, functionBlocks: deviceFunctionBlocks });
+        deviceFunctionBlocks.forEach((fb) => grouped.add(fb.id));
+      }
+    }
+
+    for (const functionBlock of functionBlocks.filter((fb) => !grouped.has(fb.id))) {
+      groups.push({
+        dsDevice: { id: functionBlock.id, type: 'dsDevice', attributes: { name: functionBlock.attributes?.name } },
+        functionBlocks: [functionBlock],
+      });
+    }
+
+    return groups;
+  }
+
+  /**
+   * Create the runtime handler for a function block of a device accessory based on device type.
+   * Each function block adds its own services to the accessory.
    * @param dssDeviceType The device type string.
    * @param accessory The platform accessory.
+   * @param functionBlock The function block handled.
    */
-  private createAccessoryHandler(dssType: string, accessory: PlatformAccessory): void {
+  private createFunctionBlockHandler(dssType: string, accessory: PlatformAccessory, functionBlock: FunctionBlock): void {
     let handler: AccessoryHandler | undefined;
     switch (dssType) {
     case 'light':
-      handler = new LightPlatformAccessory(this, accessory);
+      handler = new LightPlatformAccessory(this, accessory, functionBlock);
       break;
     case 'shade':
-      handler = new ShadePlatformAccessory(this, accessory);
+      handler = new ShadePlatformAccessory(this, accessory, functionBlock);
+      break;
+    case 'fan':
+      handler = new FanPlatformAccessory(this, accessory, functionBlock);
+      break;
+    case 'heating':
+      handler = new HeatingValvePlatformAccessory(this, accessory, functionBlock);
+      break;
+    case 'water':
+      handler = new WaterValvePlatformAccessory(this, accessory, functionBlock);
+      break;
+    case 'video':
+      handler = new TelevisionPlatformAccessory(this, accessory, functionBlock);
+      break;
+    case 'audio':
+      handler = new SpeakerPlatformAccessory(this, accessory, functionBlock);
+      break;
+    case 'relay':
+      // Relays wired to door openers or gates send impulses instead of switching
+      if (['lock', 'garageDoor'].includes(this.getRelayType(accessory.context.dsDevice.id))) {
+        handler = new ImpulsePlatformAccessory(this, accessory, functionBlock);
+      } else {
+        handler = new RelayPlatformAccessory(this, accessory, functionBlock);
+      }
+      break;
+    case 'button':
+      handler = new ButtonPlatformAccessory(this, accessory, functionBlock);
       break;
+    case 'sensor':
+      handler = new SensorPlatformAccessory(this, accessory, functionBlock);
+      break;
+    default:
+      // We should never get here.
+      this.log.error(`Unable to create accessory handler for ${dssType}.`);
+      break;
+    }
+    if (handler) {
+      this.handlerMap.set(accessory, [...(this.handlerMap.get(accessory) ?? []), handler]);
+    }
+  }
+
+  /**
+   * Create the runtime handler for an accessory not backed by a device (e.g. scenes, zones).
+   * @param dssType The accessory handler type.
+   * @param accessory The platform accessory.
+   */
+  private createAccessoryHandler(dssType: string, accessory: PlatformAccessory): void {
+    let handler: AccessoryHandler | undefined;
+    switch (dssType) {
     case 'scene':
       handler = new ApartmentScenePlatformAccessory(this, accessory);
       break;
+    case 'metering':
+      handler = new MeteringPlatformAccessory(this, accessory);
+      break;
+    case 'thermostat':
+      handler = new ThermostatPlatformAccessory(this, accessory);
+      break;
+    case 'zoneGroup':
+      handler = new ZoneGroupPlatformAccessory(this, accessory);
+      break;
+    case 'area':
+      handler = new AreaPlatformAccessory(this, accessory);
+      break;
+    case 'cluster':
+      handler = new ClusterPlatformAccessory(this, accessory);
+      break;
+    case 'userDefinedState':
+      handler = new UserDefinedStatePlatformAccessory(this, accessory);
+      break;
     default:
       // We should never get here.
       this.log.error(`Unable to create accessory handler for ${dssType}.`);
       break;
     }
     if (handler) {
-      this.handlerMap.set(accessory, handler);
+      this.handlerMap.set(accessory, [handler]);
+    }
+  }
+
+  /**
+   * Get the service subtype of a function block.
+   * Accessories with a single function block use services without subtype, so services of accessories cached before
+   * function blocks were grouped by device are kept.
+   * @param accessory The device accessory.
+   * @param functionBlock The function block.
+   * @returns The function block id, or undefined if it is the only function block of the accessory.
+   */
+  public getServiceSubtype(accessory: PlatformAccessory, functionBlock: FunctionBlock): string | undefined {
+    return (accessory.context.functionBlocks?.length ?? 0) > 1 ? functionBlock.id : undefined;
+  }
+
+  /**
+   * Get the service name of a function block.
+   * @param accessory The device accessory.
+   * @param functionBlock The function block.
+   * @returns The function block name for accessories with several function blocks, else the accessory name.
+   */
+  public getServiceName(accessory: PlatformAccessory, functionBlock: FunctionBlock): string {
+    return this.getServiceSubtype(accessory, functionBlock)
+      ? functionBlock.attributes?.name || accessory.displayName
+      : accessory.displayName;
+  }
+
+  /**
+   * Get the number of buttons of the function blocks preceding a button function block on its accessory.
+   * @param accessory The device accessory.
+   * @param functionBlock The button function block.
+   * @returns The offset of the ServiceLabelIndex of the function block's buttons.
+   */
+  public getButtonLabelIndexOffset(accessory: PlatformAccessory, functionBlock: FunctionBlock): number {
+    const functionBlocks: FunctionBlock[] = accessory.context.functionBlocks ?? [];
+    return functionBlocks
+      .slice(0, Math.max(functionBlocks.findIndex((fb) => fb.id === functionBlock.id), 0))
+      .filter((fb) => this.getDssDeviceType(fb) === 'button')
+      .reduce((count, fb) => count + (fb.attributes?.buttonInputs ?? []).filter((b) => b.attributes?.mode !== 'disabled').length, 0);
+  }
+
+  /**
+   * Set the accessory information of a device accessory, shared by all of its function blocks.
+   * @param accessory The device accessory.
+   * @param dsDevice The device.
+   * @param functionBlocks The supported function blocks of the device.
+   */
+  private setDeviceInformation(accessory: PlatformAccessory, dsDevice: DsDevice, functionBlocks: FunctionBlock[]): void {
+    accessory.getService(this.Service.AccessoryInformation)!
+      .setCharacteristic(this.Characteristic.Manufacturer, 'DigitalSTROM')
+      .setCharacteristic(this.Characteristic.Model, dsDevice.attributes?.model || functionBlocks[0]?.attributes?.technicalName || 'Device')
+      .setCharacteristic(this.Characteristic.SerialNumber, dsDevice.id);
+  }
+
+  /**
+   * Remove the services of function blocks which are no longer part of a device accessory.
+   * Services of an accessory with several function blocks have the function block id as (prefix of the) subtype,
+   * so services of a removed function block, and services created while the device had a single function block, are stale.
+   * If the device has a single function block, services created while it had several function blocks are stale.
+   * @param accessory The device accessory.
+   * @param dsDevice The device.
+   * @param functionBlocks The supported function blocks of the device.
+   */
+  private removeStaleFunctionBlockServices(accessory: PlatformAccessory, dsDevice: DsDevice, functionBlocks: FunctionBlock[]): void {
+    const isFunctionBlockSubtype = (subtype: string, functionBlockId: string) => subtype === functionBlockId || subtype.startsWith(`${functionBlockId}-`);
+    const deviceFunctionBlockIds = [...new Set([...dsDevice.attributes?.functionBlocks ?? [], ...functionBlocks.map((fb) => fb.id)])];
+
+    for (const service of [...accessory.services]) {
+      // Accessory-wide services
+      if ([this.Service.AccessoryInformation.UUID, this.Service.ServiceLabel.UUID].includes(service.UUID)) {
+        continue;
+      }
+      const stale = functionBlocks.length > 1
+        ? !functionBlocks.some((fb) => isFunctionBlockSubtype(service.subtype ?? '', fb.id))
+        : deviceFunctionBlockIds.some((id) => isFunctionBlockSubtype(service.subtype ?? '', id));
+      if (stale) {
+        this.log.debug(`Removing stale service ${service.displayName} from ${accessory.displayName}`);
+        accessory.removeService(service);
+      }
+    }
+  }
+
+  /**
+   * Remove the services of other device types from a function block, e.g. after its relay type was changed.
+   * @param accessory The device accessory.
+   * @param serviceType The service type of the function block, which is kept.
+   * @param subtype The service subtype of the function block, see getServiceSubtype.
+   */
+  public removeStaleDeviceServices(accessory: PlatformAccessory, serviceType: WithUUID<typeof Service>, subtype?: string): void {
+    const deviceServiceTypes = [
+      this.Service.Lightbulb, this.Service.WindowCovering, this.Service.Fanv2, this.Service.Valve,
+      this.Service.Outlet, this.Service.Switch, this.Service.LockMechanism, this.Service.GarageDoorOpener,
+    ];
+    for (const type of deviceServiceTypes) {
+      const service = subtype ? accessory.getServiceById(type, subtype) : accessory.getService(type);
+      if (type.UUID !== serviceType.UUID && service) {
+        accessory.removeService(service);
+      }
+    }
+  }
+
+  /**
+   * Get a service of a device accessory, or add it if it does not exist yet.
+   * @param accessory The device accessory.
+   * @param serviceType The service type.
+   * @param name The service name.
+   * @param subtype The service subtype, see getServiceSubtype.
+   * @returns The existing or added service.
+   */
+  public getOrAddService(
+    accessory: PlatformAccessory,
+    serviceType: WithUUID<typeof Service> & (new (displayName?: string, subtype?: string) => Service),
+    name: string,
+    subtype?: string,
+  ): Service {
+    const service = subtype ? accessory.getServiceById(serviceType, subtype) : accessory.getService(serviceType);
+    return service || accessory.addService(new serviceType(name, subtype));
+  }
+
+  /**
+   * Get the names of the circuits of the apartment.
+   * The meter of a circuit is listed as controller of the apartment.
+   * @param apartment The apartment structure.
+   * @returns The circuit names, keyed by the dSUID of their meter.
+   */
+  private getCircuitNames(apartment: Apartment): Map<string, string> {
+    const circuitNames = new Map<string, string>();
+    for (const { id, attributes } of apartment.included?.controllers ?? []) {
+      if (attributes?.name) {
+        circuitNames.set(id, attributes.name);
+      }
+    }
+    return circuitNames;
+  }
+
+  /**
+   * Get the UUID of the accessory of a device.
+   * Accessories used to be created per function block, a cached accessory of a device with a single function block
+   * keeps its UUID so that HomeKit keeps its room, name and automations.
+   * @param dsDevice The device.
+   * @param functionBlocks The supported function blocks of the device.
+   * @returns The UUID of the accessory.
+   */
+  private getDeviceAccessoryUUID(dsDevice: DsDevice, functionBlocks: FunctionBlock[]): string {
+    const uuid = this.api.hap.uuid.generate(dsDevice.id);
+    if (functionBlocks.length !== 1 || this.accessories.has(uuid)) {
+      return uuid;
     }
+    const legacyUUID = this.api.hap.uuid.generate(functionBlocks[0].id);
+    return this.accessories.has(legacyUUID) ? legacyUUID : uuid;
+  }
+
+  /**
+   * Get the supported function blocks of a device, as discovered for its accessory.
+   * @param dsDeviceId The device id.
+   * @returns The function blocks, or an empty array if the device has no accessory.
+   */
+  public getDeviceFunctionBlocks(dsDeviceId: string): FunctionBlock[] {
+    const accessory = [...this.accessories.values()].find((a) => a.context.dsDevice?.id === dsDeviceId);
+    return accessory?.context.functionBlocks ?? [];
+  }
+
+  /**
+   * Get the status of a function block from the apartment status.
+   * @param apartmentStatus The latest apartment status object.
+   * @param dsDeviceId The id of the device the function block belongs to.
+   * @param functionBlockId The function block id.
+   * @returns The function block status, or undefined if not available.
+   */
+  public getFunctionBlockStatus(apartmentStatus: ApartmentStatus, dsDeviceId: string, functionBlockId: string): FunctionBlockStatus | undefined {
+    return apartmentStatus?.included?.dsDevices
+      ?.find((d) => d.id === dsDeviceId)
+      ?.attributes?.functionBlocks?.find((fb) => fb.id === functionBlockId);
+  }
+
+  /**
+   * Get the configured HomeKit service type of a relay or plug adapter.
+   * @param deviceId The device id.
+   * @returns The type configured for the device, else the default type.
+   */
+  public getRelayType(deviceId: string): RelayType {
+    return this.config.options?.relays?.find((r) => r.id === deviceId)?.type ?? this.config.options?.relayType ?? 'outlet';
+  }
+
+  /**
+   * Checks whether a device is a member of a cluster with locked operations (e.g. by wind protection).
+   * @param deviceId The device id.
+   * @param apartmentStatus The latest apartment status object.
+   * @returns True if any cluster of the device is locked.
+   */
+  public isDeviceLocked(deviceId: string, apartmentStatus: ApartmentStatus): boolean {
+    const lockedClusterIds = (apartmentStatus?.included?.clusters ?? [])
+      .filter((c) => c.attributes?.operationsLocked)
+      .map((c) => c.id);
+
+    return this.clusters.some((c) => lockedClusterIds.includes(c.id) && !!c.attributes?.dsDevices?.includes(deviceId));
   }
 
   /**
@@ -363,23 +1244,106 @@ export class DigitalStromPlatform implements DynamicPlatformPlugin {
   }
 
   /**
-   * Update all accessories when apartment status changes.
-   * Called on WebSocket apartmentStatusChanged event.
+   * Request a refresh of the apartment status.
+   * Called on WebSocket apartmentStatusChanged event, or on the status polling interval while the WebSocket is down.
+   * Requests are debounced and serialized: at most one refresh is in flight and one trailing refresh is queued,
+   * so bursts of events (e.g. a moving shade) result in few downloads, applied in the order they were requested.
+   * @param change The entity whose status changed, the whole apartment by default.
+   */
+  private requestStatusRefresh(change: StatusChange = { scope: 'apartment' }): void {
+    this.refreshMetrics.events++;
+
+    const queued = this.pendingChanges !== null;
+    this.pendingChanges ??= { apartment: false, dsDevices: new Set(), zones: new Set() };
+    if (change.scope === 'apartment') {
+      this.pendingChanges.apartment = true;
+    } else if (change.scope === 'dsDevice') {
+      this.pendingChanges.dsDevices.add(change.id);
+    } else {
+      this.pendingChanges.zones.add(change.id);
+    }
+
+    if (queued) {
+      // Covered by the refresh already scheduled
+      this.refreshMetrics.coalesced++;
+      return;
+    }
+    if (this.refreshInFlight) {
+      // The status in flight may predate this event, so refresh once more when it is applied
+      return;
+    }
+
+    this.scheduleStatusRefresh();
+  }
+
+  /**
+   * Schedule the next apartment status refresh after the debounce delay.
+   */
+  private scheduleStatusRefresh(): void {
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.runStatusRefresh();
+    }, this.REFRESH_DEBOUNCE_DELAY);
+  }
+
+  /**
+   * Run a single apartment status refresh and schedule the trailing refresh if requested meanwhile.
+   */
+  private async runStatusRefresh(): Promise<void> {
+    const changes = this.pendingChanges ?? { apartment: true, dsDevices: new Set<string>(), zones: new Set<string>() };
+    this.pendingChanges = null;
+    this.refreshInFlight = true;
+    try {
+      await this.updateAccessories(changes);
+    } finally {
+      this.refreshInFlight = false;
+    }
+
+    this.refreshMetrics.refreshes++;
+    const { events, refreshes, coalesced } = this.refreshMetrics;
+    this.log.debug(`Status refresh metrics: ${events} events, ${refreshes} refreshes, ${coalesced} events coalesced`);
+
+    if (this.pendingChanges && !this.isShuttingDown) {
+      this.scheduleStatusRefresh();
+    }
+  }
+
+  /**
+   * Update the accessories affected by status changes.
+   * If only devices or zones changed, just their status is fetched and merged into the latest apartment status,
+   * else the full apartment status is fetched and all accessories are updated.
+   * The full apartment status is fetched as well if the status of a changed device or zone cannot be fetched.
+   * Only called by runStatusRefresh, so that status downloads never overlap.
+   * @param changes The changed devices and zones, or whether the apartment status changed as a whole.
    */
-  private async updateAccessories(): Promise<void> {
-    if (this.accessories.size === 0) {
+  private async updateAccessories(changes: { apartment: boolean; dsDevices: Set<string>; zones: Set<string> }): Promise<void> {
+    if (this.accessories.size === 0 && this.externalAccessories.size === 0) {
       this.log.debug('No accessories to update.');
       return;
     }
-    this.log.debug('Update accessories');
     try {
-      const apartmentStatus = await this.dsAPI.getApartmentStatus<ApartmentStatus>();
+      let accessories = [...this.accessories.values(), ...this.externalAccessories.values()];
+      if (changes.apartment || !this.apartmentStatus) {
+        this.log.debug('Update accessories');
+        this.apartmentStatus = await this.dsAPI.getApartmentStatus<ApartmentStatus>();
+      } else {
+        this.log.debug(`Update accessories of ${changes.dsDevices.size} devices and ${changes.zones.size} zones`);
+        try {
+          await this.mergeStatusChanges(this.apartmentStatus, changes);
+          accessories = accessories.filter((accessory) => this.isAccessoryAffected(accessory, changes));
+        } catch (error) {
+          // E.g. a changed device has been removed meanwhile, the full status still covers all changes
+          this.log.warn('Failed to fetch changed device and zone status, updating all accessories:', error);
+          this.apartmentStatus = await this.dsAPI.getApartmentStatus<ApartmentStatus>();
+        }
+      }
+
+      const apartmentStatus = this.apartmentStatus;
       const updatePromises: Array<Promise<{ accessoryName: string; success: true }>> = [];
 
-      for (const accessory of this.accessories.values()) {
-        const handler = this.handlerMap.get(accessory);
-        if (handler) {
-          const accessoryName = accessory.displayName ?? accessory.context.device?.attributes?.name ?? String(accessory.UUID);
+      for (const accessory of accessories) {
+        for (const handler of this.handlerMap.get(accessory) ?? []) {
+          const accessoryName = accessory.displayName ?? accessory.context.dsDevice?.attributes?.name ?? String(accessory.UUID);
           updatePromises.push(
             handler.updateState(apartmentStatus).then(
               () => ({ accessoryName, success: true }),
@@ -398,6 +1362,157 @@ export class DigitalStromPlatform implements DynamicPlatformPlugin {
       }
     } catch (error) {
       this.log.error('Failed to update accessories:', error);
+      // The dSS is not reachable at runtime, run through the lifecycle again until it is back
+      if (this.state === 'running') {
+        this.setDegraded('Failed to update accessories');
+      }
+    }
+  }
+
+  /**
+   * Fetch the status of changed devices and zones and replace it in the apartment status.
+   * The apartment status is only modified once all requests succeeded.
+   * @param apartmentStatus The latest apartment status object.
+   * @param changes The changed devices and zones.
+   */
+  private async mergeStatusChanges(
+    apartmentStatus: ApartmentStatus,
+    changes: { dsDevices: Set<string>; zones: Set<string> },
+  ): Promise<void> {
+    const [deviceStatuses, zoneStatuses] = await Promise.all([
+      Promise.all([...changes.dsDevices].map((id) => this.dsAPI.getDeviceStatus<DeviceStatus>(id))),
+      Promise.all([...changes.zones].map((id) => this.dsAPI.getZoneStatus<ZoneStatus>(id))),
+    ]);
+
+    apartmentStatus.included ??= {};
+    apartmentStatus.included.dsDevices = [
+      ...(apartmentStatus.included.dsDevices ?? []).filter((d) => !changes.dsDevices.has(d.id)),
+      ...deviceStatuses,
+    ];
+    apartmentStatus.included.zones = [
+      ...(apartmentStatus.included.zones ?? []).filter((z) => !changes.zones.has(z.id)),
+      ...zoneStatuses,
+    ];
+  }
+
+  /**
+   * Checks whether the state of an accessory depends on changed devices or zones.
+   * @param accessory The platform accessory.
+   * @param changes The changed devices and zones.
+   * @returns True if the accessory has to be updated.
+   */
+  private isAccessoryAffected(accessory: PlatformAccessory, changes: { dsDevices: Set<string>; zones: Set<string> }): boolean {
+    const deviceId: string | undefined = accessory.context.dsDevice?.id;
+    const deviceIds: string[] = [
+      ...(deviceId ? [deviceId] : []),
+      // Clusters follow the position of their members
+      ...(accessory.context.cluster?.attributes?.dsDevices ?? []),
+      // Impulse relays may follow the binary input of another device
+      ...(this.config.options?.relays?.filter((r) => r.id === deviceId && r.stateDevice).map((r) => r.stateDevice!) ?? []),
+    ];
+
+    return deviceIds.some((id) => changes.dsDevices.has(id))
+      || (!!accessory.context.zone?.id && changes.zones.has(accessory.context.zone.id));
+  }
+
+  /**
+   * Dispatch a button input event to the accessory handlers.
+   * Called on WebSocket buttonInputEvent events.
+   * @param event The button input event.
+   */
+  private handleButtonEvent(event: ButtonInputEvent): void {
+    for (const accessory of this.accessories.values()) {
+      for (const handler of this.handlerMap.get(accessory) ?? []) {
+        if (!handler.handleButtonEvent) {
+          continue;
+        }
+        try {
+          handler.handleButtonEvent(event);
+        } catch (error) {
+          this.log.error(`Button event failed for ${accessory.displayName}:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Start polling metering values on the configured interval.
+   * Metering values are not pushed via WebSocket, so they have to be requested periodically.
+   */
+  private startMeteringPolling(): void {
+    if (this.meteringInterval) {
+      clearInterval(this.meteringInterval);
+    }
+
+    const configuredInterval = this.config.options?.meteringInterval ?? this.DEFAULT_METERING_INTERVAL;
+    const interval = Math.max(configuredInterval, this.MIN_METERING_INTERVAL);
+    this.log.debug(`Polling metering values every ${interval} seconds`);
+
+    this.updateMeterings();
+    this.meteringInterval = setInterval(() => this.updateMeterings(), interval * 1000);
+  }
+
+  /**
+   * Start polling the apartment status on the configured interval.
+   * Called when the WebSocket connection is lost or cannot be established at startup.
+   */
+  private startStatusPolling(): void {
+    if (this.statusPollingInterval) {
+      return;
+    }
+
+    const configuredInterval = this.config.options?.statusPollingInterval ?? this.DEFAULT_STATUS_POLLING_INTERVAL;
+    const interval = Math.max(configuredInterval, this.MIN_STATUS_POLLING_INTERVAL);
+    this.log.warn(`WebSocket not connected, polling apartment status every ${interval} seconds`);
+
+    this.statusPollingInterval = setInterval(() => this.requestStatusRefresh(), interval * 1000);
+  }
+
+  /**
+   * Stop polling the apartment status.
+   * Called when the WebSocket connection is established again.
+   */
+  private stopStatusPolling(): void {
+    if (!this.statusPollingInterval) {
+      return;
+    }
+
+    clearInterval(this.statusPollingInterval);
+    this.statusPollingInterval = null;
+    this.log.info('WebSocket connection restored, switching back to push updates');
+
+    // Catch up on changes that happened since the last poll
+    this.requestStatusRefresh();
+  }
+
+  /**
+   * Update all metering accessories with the latest metering values.
+   * Called on the metering polling interval.
+   */
+  private async updateMeterings(): Promise<void> {
+    // Retry a failed registration, e.g. if the dSS was not reachable during discovery
+    if (!this.meteringsRegistered && !await this.registerMeterings()) {
+      return;
+    }
+
+    this.log.debug('Update meterings');
+    try {
+      const meteringValues = await this.dsAPI.getMeteringsValues<MeteringValues>();
+
+      for (const accessory of this.accessories.values()) {
+        for (const handler of this.handlerMap.get(accessory) ?? []) {
+          if (!handler.updateMeterings) {
+            continue;
+          }
+          try {
+            await handler.updateMeterings(meteringValues);
+          } catch (error) {
+            this.log.error(`Metering update failed for ${accessory.displayName}:`, error);
+          }
+        }
+      }
+    } catch (error) {
+      this.log.error('Failed to update meterings:', error);
     }
   }
 
@@ -405,8 +1520,26 @@ export class DigitalStromPlatform implements DynamicPlatformPlugin {
    * Shut down plugin
    */
   private pluginShutdown() {
+    this.isShuttingDown = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.meteringInterval) {
+      clearInterval(this.meteringInterval);
+      this.meteringInterval = null;
+    }
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.statusPollingInterval) {
+      clearInterval(this.statusPollingInterval);
+      this.statusPollingInterval = null;
+    }
     if (this.webSocketClient) {
       this.webSocketClient.removeMessageListener('STATUS_LISTENER');
+      this.webSocketClient.removeConnectionListener('STATUS_LISTENER');
       this.webSocketClient.close();
     }
   }
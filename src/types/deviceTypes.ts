@@ -1,12 +1,82 @@
-import type { FunctionBlock } from './digitalStromTypes.js';
+import type { DeviceActionId, FunctionBlock } from './digitalStromTypes.js';
 
-export type DeviceTypeKey = 'light' | 'shade';
+export type DeviceTypeKey = 'light' | 'shade' | 'fan' | 'heating' | 'water' | 'video' | 'audio' | 'relay' | 'button' | 'sensor';
 
 export interface DeviceTypeConfig {
   prefixes: string[];
   validate: (device: FunctionBlock, technicalName: string) => boolean;
 }
 
+export type ShadeTypeKey = 'awning' | 'outside' | 'indoor' | 'transparency';
+
+export interface ShadeTypeConfig {
+  /** Output type controlling the position of the covering */
+  output: string;
+  /** Scenario actions moving the covering to its HomeKit open (100) and closed (0) position */
+  openActionId: DeviceActionId;
+  closeActionId: DeviceActionId;
+  /** Whether the output value is the inverse of the HomeKit position (output 0 is HomeKit open) */
+  invertedOutput: boolean;
+  validate: (device: FunctionBlock) => boolean;
+}
+
+/**
+ * Checks whether a function block has an output of the given type.
+ * Outputs are matched by id and type, as the id does not always equal the type (e.g. 'brightness' for lightBrightness).
+ */
+export function hasOutput(device: FunctionBlock, output: string): boolean {
+  return !!device.attributes?.outputs?.find((o) => o.id === output || o.attributes?.type === output);
+}
+
+/**
+ * Covering types in order of precedence, awnings use the same output as outside shades.
+ * The dSS treats extending an awning like lowering a blind (off, output 0), while HomeKit shows an extended awning as open.
+ */
+export const SHADE_TYPE_CONFIG: Record<ShadeTypeKey, ShadeTypeConfig> = {
+  awning: {
+    output: 'shadePositionOutside',
+    openActionId: 'off',
+    closeActionId: 'on',
+    invertedOutput: true,
+    validate: (device: FunctionBlock) => {
+      return hasOutput(device, 'shadePositionOutside') && !!device.attributes?.applications?.includes('awnings');
+    },
+  },
+  outside: {
+    output: 'shadePositionOutside',
+    openActionId: 'on',
+    closeActionId: 'off',
+    invertedOutput: false,
+    validate: (device: FunctionBlock) => hasOutput(device, 'shadePositionOutside'),
+  },
+  indoor: {
+    output: 'shadePositionIndoor',
+    openActionId: 'on',
+    closeActionId: 'off',
+    invertedOutput: false,
+    validate: (device: FunctionBlock) => hasOutput(device, 'shadePositionIndoor'),
+  },
+  transparency: {
+    output: 'shadeTransparency',
+    openActionId: 'on',
+    closeActionId: 'off',
+    invertedOutput: false,
+    validate: (device: FunctionBlock) => hasOutput(device, 'shadeTransparency'),
+  },
+};
+
+/**
+ * Get the covering type of a shade device.
+ * @param device The function block of the shade.
+ * @returns The covering type, or undefined if the device has no supported position output.
+ */
+export function getShadeType(device: FunctionBlock): ShadeTypeKey | undefined {
+  return (Object.keys(SHADE_TYPE_CONFIG) as ShadeTypeKey[]).find((key) => SHADE_TYPE_CONFIG[key].validate(device));
+}
+
+/** Sensor measurement types that can be exposed as HomeKit sensor services */
+export const SUPPORTED_SENSOR_TYPES = ['temperature', 'humidity', 'brightness', 'carbonDioxide'];
+
 export const DEVICE_TYPE_CONFIG: Record<DeviceTypeKey, DeviceTypeConfig> = {
   light: {
     prefixes: ['GE', 'SW'],
@@ -20,7 +90,55 @@ export const DEVICE_TYPE_CONFIG: Record<DeviceTypeKey, DeviceTypeConfig> = {
   shade: {
     prefixes: ['GR'],
     validate: (device: FunctionBlock) => {
-      return !!device.attributes?.outputs?.find((o) => o.id === 'shadePositionOutside');
+      return !!getShadeType(device);
+    },
+  },
+  fan: {
+    prefixes: ['BL', 'SW', 'GN', 'UM'],
+    validate: (device: FunctionBlock) => {
+      return hasOutput(device, 'airFlowIntensity');
+    },
+  },
+  heating: {
+    prefixes: ['BL'],
+    validate: (device: FunctionBlock) => {
+      return hasOutput(device, 'heatingPower') || hasOutput(device, 'coolingCapacity');
+    },
+  },
+  water: {
+    prefixes: ['BL', 'SW', 'GN', 'UM'],
+    validate: (device: FunctionBlock) => {
+      return hasOutput(device, 'waterFlowRate');
+    },
+  },
+  video: {
+    prefixes: ['SW', 'GN', 'UM'],
+    validate: (device: FunctionBlock) => {
+      return hasOutput(device, 'videoInputSource') || hasOutput(device, 'videoStation');
+    },
+  },
+  audio: {
+    prefixes: ['SW', 'GN', 'UM'],
+    validate: (device: FunctionBlock) => {
+      return hasOutput(device, 'audioVolume');
+    },
+  },
+  relay: {
+    prefixes: ['SW'],
+    validate: (device: FunctionBlock) => {
+      return hasOutput(device, 'powerState') || !!device.attributes?.outputs?.find((o) => o.attributes?.mode === 'switched');
+    },
+  },
+  button: {
+    prefixes: ['SW'],
+    validate: (device: FunctionBlock) => {
+      return !!device.attributes?.buttonInputs?.find((b) => b.attributes?.mode !== 'disabled');
+    },
+  },
+  sensor: {
+    prefixes: ['GE', 'GR', 'SW', 'GN', 'BL', 'RT', 'SK', 'UM'],
+    validate: (device: FunctionBlock) => {
+      return !!device.attributes?.sensorInputs?.find((s) => SUPPORTED_SENSOR_TYPES.includes(s.attributes?.type ?? ''));
     },
   },
 };
\ No newline at end of file
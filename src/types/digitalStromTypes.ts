@@ -3,6 +3,31 @@ export interface ApiResponse<T> {
   data: T;
 }
 
+// Metering
+export type MeteringType = 'consumption' | 'energy' | string;
+type MeteringUnit = 'W' | 'Wh' | 'kWh' | string;
+
+// Metering value of the apartment or a single circuit
+export interface MeteringValue {
+  /** '<origin>.<meteringType>', e.g. 'apartment.consumption' or '<circuit dsuid>.energy' */
+  id: string;
+  type?: 'meteringValue' | string;
+  attributes?: {
+    unit?: MeteringUnit;
+    value?: number;
+    timestamp?: string;
+  };
+}
+
+// Meterings values response (GET /api/v1/apartment/meterings/values)
+export interface MeteringValues {
+  id: string;
+  type: 'meteringValues' | string;
+  attributes?: {
+    values?: MeteringValue[];
+  };
+}
+
 // Plugin options
 export interface PluginOptions {
   dssip: string;
@@ -10,11 +35,47 @@ export interface PluginOptions {
   fingerprint?: string;
   disableCertificateValidation?: boolean;
   enableApartmentScenes?: boolean;
+  enableMetering?: boolean;
+  meteringInterval?: number;
+  statusPollingInterval?: number;
+  enableZoneThermostats?: boolean;
+  invertAwnings?: boolean;
+  enableZoneGroups?: boolean;
+  enableAreas?: boolean;
+  enableClusters?: boolean;
+  enableUserDefinedStates?: boolean;
+  userDefinedStateType?: UserDefinedStateType;
+  userDefinedStates?: Array<{
+    id: string;
+    type: UserDefinedStateType;
+  }>;
+  relayType?: RelayType;
+  relays?: Array<{
+    id: string;
+    type: RelayType;
+    /** Seconds until a lock is shown secured or a garage door closed again (impulse types only) */
+    autoResetTime?: number;
+    /** dSUID of a device whose binary input reports the lock or door state (impulse types only) */
+    stateDevice?: string;
+    /** Id of the binary input of the state device, the first binary input with a value if not set (impulse types only) */
+    stateInput?: string;
+  }>;
 }
 
+// HomeKit service type of a user-defined state
+export type UserDefinedStateType = 'contact' | 'occupancy' | 'switch';
+
+// HomeKit service type of a relay or plug adapter
+export type RelayType = 'outlet' | 'switch' | 'lock' | 'garageDoor';
+
+// Lifecycle state of the platform
+export type PlatformState = 'initializing' | 'validating' | 'discovering' | 'running' | 'degraded';
+
 // Accessory handler interface
 export interface AccessoryHandler {
   updateState(apartmentStatus: ApartmentStatus): Promise<void>;
+  updateMeterings?(meteringValues: MeteringValues): Promise<void>;
+  handleButtonEvent?(event: ButtonInputEvent): void;
 }
 
 // ===== Enums and Type Aliases =====
@@ -75,6 +136,20 @@ type ButtonType =
 
 type ButtonMode = 'disabled' | 'button1way' | 'button2way' | string;
 
+export type ButtonClickType =
+  | 'tip_1x'
+  | 'tip_2x'
+  | 'tip_3x'
+  | 'tip_4x'
+  | 'hold_start'
+  | 'hold_repeat'
+  | 'hold_end'
+  | 'click_1x'
+  | 'click_2x'
+  | 'click_3x'
+  | 'short_long'
+  | string;
+
 // Sensor
 type MeasurementType =
   | 'temperature'
@@ -108,6 +183,9 @@ type OutputStatusStatus =
   | string;
 
 type SensorStatusStatus = 'ok' | 'error' | string;
+type ZoneControlMode = 'off' | 'pid' | 'zoneFollower' | 'fixedValue' | 'manual' | string;
+type ZoneOperationMode = 'heating' | 'cooling' | string;
+type ZoneApplicationStatus = 'on' | 'off' | string;
 type UserDefinedStateStatusStatus = 'active' | 'inactive' | 'undefined' | string;
 
 // ===== Core Entities =====
@@ -181,7 +259,7 @@ export interface DsDevice {
     macAddress?: string;
     model?: string;
     firmwareVersion?: string;
-    functionBlocks?: FunctionBlock[];
+    functionBlocks?: string[]; // Array of function block IDs
     submodules?: string[]; // Array of submodule IDs
   };
 }
@@ -198,6 +276,17 @@ export interface Submodule {
   };
 }
 
+// Controller (dSM, the meter of a circuit)
+export interface Controller {
+  id: string;
+  type: 'controller' | string;
+  lastChanged?: string;
+  attributes?: {
+    name?: string;
+    technicalName?: string;
+  };
+}
+
 // Function Block
 export interface FunctionBlock {
   id: string;
@@ -212,6 +301,7 @@ export interface FunctionBlock {
     sensorInputs?: Sensor[];
     submodule?: string;
     deviceAdapter?: string;
+    applications?: ScenarioApplication[];
   };
 }
 
@@ -237,6 +327,27 @@ export interface Zone {
   };
 }
 
+// Cluster
+export interface Cluster {
+  id: string;
+  type: 'cluster' | string;
+  lastChanged?: string;
+  attributes?: {
+    name?: string;
+    application?: ScenarioApplication;
+    dsDevices?: string[];
+  };
+}
+
+// User Defined State
+export interface UserDefinedState {
+  id: string;
+  type: 'userDefinedState' | string;
+  attributes?: {
+    name?: string;
+  };
+}
+
 // ===== Status Entities =====
 
 // Output Status
@@ -258,11 +369,19 @@ export interface SensorStatus {
   value?: number;
 }
 
+// Binary Input Status
+export interface BinaryInputStatus {
+  id: string;
+  status?: SensorStatusStatus;
+  value?: number | boolean;
+}
+
 // Function Block Status
 export interface FunctionBlockStatus {
   id: string;
   outputs?: OutputStatus[];
   sensorInputs?: SensorStatus[];
+  binaryInputs?: BinaryInputStatus[];
 }
 
 // Device Status
@@ -279,14 +398,20 @@ export interface ZoneStatus {
   id: string;
   type?: 'zoneStatus' | string;
   attributes?: {
-    applications?: {
-      id: string;
-      status?: string;
+    applications?: Array<{
+      id: ScenarioApplication | string;
+      status?: ZoneApplicationStatus;
       nonLocalPriority?: string;
-      area1?: string;
-      area2?: string;
-      area3?: string;
-      area4?: string;
+      area1?: ZoneApplicationStatus;
+      area2?: ZoneApplicationStatus;
+      area3?: ZoneApplicationStatus;
+      area4?: ZoneApplicationStatus;
+    }>;
+    /** Zone sensor values, identified by their MeasurementType (e.g. temperature, temperatureSetpoint) */
+    sensors?: SensorStatus[];
+    climate?: {
+      controlMode?: ZoneControlMode;
+      operationMode?: ZoneOperationMode;
     };
   };
 }
@@ -323,8 +448,11 @@ export interface Apartment {
     installation?: Installation;
     dsDevices?: DsDevice[];
     submodules?: Submodule[];
+    controllers?: Controller[];
     functionBlocks?: FunctionBlock[];
     zones?: Zone[];
+    clusters?: Cluster[];
+    userDefinedStates?: UserDefinedState[];
   };
 }
 
@@ -355,6 +483,40 @@ export interface ApartmentStatus {
   };
 }
 
+// ===== Notifications =====
+
+// Apartment status changed event (WebSocket notification)
+// Names the device or zone if only its status changed, else the apartment status changed as a whole
+export interface ApartmentStatusChangedEvent {
+  type: 'apartmentStatusChanged';
+  attributes?: {
+    dsDevice?: string;
+    zone?: string;
+    cluster?: string;
+    userDefinedState?: string;
+  };
+}
+
+// Button input event (WebSocket notification)
+export interface ButtonInputEvent {
+  type: 'buttonInputEvent';
+  attributes?: {
+    dsDevice?: string;
+    functionBlock?: string;
+    buttonInput?: string;
+    clickType?: ButtonClickType;
+  };
+}
+
+// WebSocket notification, parsed from the message arguments
+export type NotificationEvent = ApartmentStatusChangedEvent | ButtonInputEvent;
+
+// Entity whose status changed, used to refresh only the affected accessories
+export type StatusChange =
+  | { scope: 'apartment' }
+  | { scope: 'dsDevice'; id: string }
+  | { scope: 'zone'; id: string };
+
 // ===== Scenario Invoke =====
 
 export type ScenarioApplication = 'lights' | 'shades' | 'awnings' | 'audio' | 'video' | 'ventilation' | 'recirculation';
@@ -0,0 +1,89 @@
+import type { API, Characteristic, Service, WithUUID } from 'homebridge';
+
+export interface EveCharacteristicTypes {
+  /** Current power consumption in W */
+  CurrentConsumption: WithUUID<new () => Characteristic>;
+  /** Total energy consumption in kWh */
+  TotalConsumption: WithUUID<new () => Characteristic>;
+  /** Valve position in percent */
+  ValvePosition: WithUUID<new () => Characteristic>;
+}
+
+export interface EveServiceTypes {
+  /** Power meter service carrying the Eve consumption characteristics */
+  PowerMeter: WithUUID<typeof Service> & (new (displayName?: string, subtype?: string) => Service);
+}
+
+/**
+ * Creates the custom Eve characteristics and services.
+ * These are not part of the HAP specification, but are understood by the Eve app (and most third-party HomeKit apps).
+ * The classes must be derived from the HAP instance passed in by Homebridge, so they are built at runtime.
+ * @param api Homebridge API.
+ */
+export function createEveTypes(api: API): { Characteristic: EveCharacteristicTypes; Service: EveServiceTypes } {
+  const { Characteristic, Service, Formats, Perms } = api.hap;
+
+  class CurrentConsumption extends Characteristic {
+    static readonly UUID = 'E863F10D-079E-48FF-8F27-9C2605A29F52';
+
+    constructor() {
+      super('Consumption', CurrentConsumption.UUID, {
+        format: Formats.FLOAT,
+        unit: 'W',
+        minValue: 0,
+        maxValue: 100000,
+        minStep: 0.1,
+        perms: [Perms.PAIRED_READ, Perms.NOTIFY],
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  class TotalConsumption extends Characteristic {
+    static readonly UUID = 'E863F10C-079E-48FF-8F27-9C2605A29F52';
+
+    constructor() {
+      super('Total Consumption', TotalConsumption.UUID, {
+        format: Formats.FLOAT,
+        unit: 'kWh',
+        minValue: 0,
+        maxValue: 1000000000,
+        minStep: 0.001,
+        perms: [Perms.PAIRED_READ, Perms.NOTIFY],
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  class ValvePosition extends Characteristic {
+    static readonly UUID = 'E863F12E-079E-48FF-8F27-9C2605A29F52';
+
+    constructor() {
+      super('Valve Position', ValvePosition.UUID, {
+        format: Formats.UINT8,
+        unit: 'percentage',
+        minValue: 0,
+        maxValue: 100,
+        minStep: 1,
+        perms: [Perms.PAIRED_READ, Perms.NOTIFY],
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  class PowerMeter extends Service {
+    static readonly UUID = '00000001-0000-1777-8000-775D67EC4377';
+
+    constructor(displayName?: string, subtype?: string) {
+      super(displayName, PowerMeter.UUID, subtype);
+      this.addCharacteristic(CurrentConsumption);
+      this.addCharacteristic(TotalConsumption);
+      this.addOptionalCharacteristic(Characteristic.Name);
+    }
+  }
+
+  return {
+    Characteristic: { CurrentConsumption, TotalConsumption, ValvePosition },
+    Service: { PowerMeter },
+  };
+}
@@ -9,7 +9,7 @@ const { client: WsClientConstructor } = websocket;
 
 /**
  * Handles WebSocket communication with the digitalSTROM server for real-time notifications.
- * Supports connection management, heartbeat, reconnection, and message listeners.
+ * Supports connection management, heartbeat, reconnection, and message and connection listeners.
  */
 export default class WebSocketClient {
   /** WebSocket client instance */
@@ -18,6 +18,10 @@ export default class WebSocketClient {
   private connection: WsConnection | null = null;
   /** Registered message listeners */
   private listeners: Array<{id: string; callback: (msg: { command: string; payload?: string }) => unknown}> = [];
+  /** Registered connection listeners, notified when the connection is established or lost */
+  private connectionListeners: Array<{id: string; callback: (connected: boolean) => unknown}> = [];
+  /** Whether the connection is established, null until the first connection attempt finished */
+  private connected: boolean | null = null;
   /** Whether a connection attempt is in progress */
   private isConnecting = false;
   /** Whether the client has been intentionally shut down */
@@ -26,10 +30,8 @@ export default class WebSocketClient {
   private pendingSends: Array<() => void> = [];
   /** Heartbeat interval timer */
   private heartbeatInterval: NodeJS.Timeout | null = null;
-  /** Current retry count for reconnection */
+  /** Current retry count for reconnection, reconnection continues indefinitely at the max delay */
   private retryCount = 0;
-  /** Maximum number of reconnection attempts */
-  private readonly maxRetries = 100;
   private readonly BASE_RETRY_DELAY = 1000; // 1 seconds
   private readonly MAX_RETRY_DELAY = 60000; // 60 seconds
   /** Heartbeat interval in milliseconds */
@@ -61,14 +63,6 @@ export default class WebSocketClient {
       this.log.debug('Already connecting, skipping...');
       return;
     }
-    if (this.retryCount >= this.maxRetries) {
-      this.log.error('Max retries reached, stopping reconnection server attempts');
-      if (callback) {
-        callback(new Error('Max retries reached'));
-      }
-      return;
-    }
-
     this.isConnecting = true;
     this.client = new WsClientConstructor();
 
@@ -77,6 +71,7 @@ export default class WebSocketClient {
       this.isConnecting = false;
       this.retryCount = 0; // reset retries on success
       this.connection = connection;
+      this.setConnected(true);
 
       // Clear any existing heartbeat interval
       if (this.heartbeatInterval) {
@@ -93,6 +88,7 @@ export default class WebSocketClient {
         this.connection?.close();
         this.connection = null; // clear stale connection
         this.client = null; // clear stale client
+        this.setConnected(false);
         if (!this.isShuttingDown) {
           setTimeout(() => this.connect(), 1000);
         }
@@ -108,6 +104,7 @@ export default class WebSocketClient {
         this.connection = null; // clear stale connection
         this.client = null; // clear stale client
         this.isConnecting = false;
+        this.setConnected(false);
         if (callback) {
           callback(new Error('Connection closed by server'));
         }
@@ -162,8 +159,9 @@ export default class WebSocketClient {
       if (callback) {
         callback(err);
       }
+      this.setConnected(false);
       this.retryCount++;
-      this.log.error(`WS Connection failed! Retry ${this.retryCount}/${this.maxRetries}`);
+      this.log.error(`WS Connection failed! Retry ${this.retryCount}`);
       this.log.error(err.message);
 
       // Exponential backoff with max delay
@@ -231,6 +229,42 @@ export default class WebSocketClient {
     );
   }
 
+  /**
+   * Adds a connection listener, called with true when the connection is established and with false when it is lost
+   * or the first connection attempt failed. If the first attempt already finished, it is called with the current state.
+   * @param listenerId Unique identifier for the listener.
+   * @param callback Callback function to handle connection changes.
+   */
+  public addConnectionListener(listenerId: string, callback: (connected: boolean) => unknown): void {
+    this.log.debug(`Adding connection state listener: ${listenerId}`);
+    this.connectionListeners.push({ id: listenerId, callback });
+    if (this.connected !== null) {
+      callback(this.connected);
+    }
+  }
+
+  /**
+   * Removes a previously registered connection listener.
+   * @param listenerId Unique identifier for the listener to remove.
+   */
+  public removeConnectionListener(listenerId: string): void {
+    this.connectionListeners = this.connectionListeners.filter(
+      (listener) => listener.id !== listenerId,
+    );
+  }
+
+  /**
+   * Updates the connection state and notifies the connection listeners on changes.
+   * @param connected True if the connection is established.
+   */
+  private setConnected(connected: boolean): void {
+    if (connected === this.connected) {
+      return;
+    }
+    this.connected = connected;
+    this.connectionListeners.forEach((listener) => listener.callback(connected));
+  }
+
   /**
    * Handles and dispatches incoming WebSocket messages to registered listeners.
    * @param msg The received message string.